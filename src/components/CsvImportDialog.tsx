@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { NewSessionInput, SessionResult, StudySession } from '@/lib/types';
+import {
+  ColumnMapping, CsvImportReport, DATE_FORMATS, detectFormats, guessMapping, planCsvImport,
+  REQUIRED_CSV_FIELDS, SESSION_CSV_FIELDS, SessionCsvField, TIME_FORMATS,
+} from '@/lib/sessionCsv';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ImportReportSummary } from '@/components/ImportReportSummary';
+
+interface CsvImportDialogProps {
+  // Parsed file including its header row
+  rows: string[][] | null;
+  sessions: StudySession[];
+  onImport: (inputs: NewSessionInput[]) => SessionResult[];
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<SessionCsvField, string> = {
+  id: 'Id',
+  date: 'Date',
+  subject: 'Subject',
+  startTime: 'Start time',
+  endTime: 'End time',
+  durationMinutes: 'Duration (min)',
+  focusQuality: 'Focus (1-5)',
+  distractionCount: 'Distractions',
+  energyLevel: 'Energy',
+  notes: 'Notes',
+};
+
+const UNMAPPED = 'none';
+
+export function CsvImportDialog({ rows, sessions, onImport, onClose }: CsvImportDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState(DATE_FORMATS[0]);
+  const [timeFormat, setTimeFormat] = useState(TIME_FORMATS[0]);
+  const [report, setReport] = useState<CsvImportReport | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+
+  const headers = useMemo(() => rows?.[0] ?? [], [rows]);
+  const dataRows = useMemo(() => rows?.slice(1) ?? [], [rows]);
+
+  useEffect(() => {
+    if (!rows) return;
+    setMapping(guessMapping(rows[0] ?? []));
+    setReport(null);
+    setImported(null);
+  }, [rows]);
+
+  const column = (field: SessionCsvField) => {
+    const index = mapping[field];
+    return index === undefined ? [] : dataRows.map(r => r[index] ?? '');
+  };
+  const dateCandidates = detectFormats(column('date'), DATE_FORMATS);
+  const timeCandidates = detectFormats([...column('startTime'), ...column('endTime')], TIME_FORMATS);
+  const dateKey = dateCandidates.join('|');
+  const timeKey = timeCandidates.join('|');
+
+  // Re-detect whenever the mapped columns change
+  useEffect(() => { if (dateCandidates.length > 0) setDateFormat(dateCandidates[0]); }, [dateKey]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { if (timeCandidates.length > 0) setTimeFormat(timeCandidates[0]); }, [timeKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!rows) return null;
+
+  const missing = REQUIRED_CSV_FIELDS.filter(f => mapping[f] === undefined);
+
+  const handleDryRun = () => {
+    setReport(planCsvImport(dataRows, mapping, { date: dateFormat, time: timeFormat }, sessions));
+  };
+
+  const handleImport = () => {
+    if (!report) return;
+    // The user has reviewed the warnings in the report
+    const results = onImport(report.ready.map(r => r.input));
+    setImported(results.filter(r => 'id' in r).length);
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-card border-border/50 max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Sessions from CSV</DialogTitle>
+          <DialogDescription>
+            {dataRows.length} row{dataRows.length !== 1 ? 's' : ''} found. {report ? 'Nothing has been saved yet.' : 'Match each field to a column in your file.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {imported !== null ? (
+          <div className="py-6 flex flex-col items-center gap-3">
+            <CheckCircle2 className="w-10 h-10 text-success" />
+            <p className="text-sm">Imported {imported} session{imported !== 1 ? 's' : ''}.</p>
+          </div>
+        ) : report ? (
+          <ImportReportSummary report={report} />
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+              {SESSION_CSV_FIELDS.map(field => (
+                <div key={field} className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-24 shrink-0">
+                    {FIELD_LABELS[field]}{REQUIRED_CSV_FIELDS.includes(field) && ' *'}
+                  </span>
+                  <Select
+                    value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                    onValueChange={v => setMapping(prev => ({ ...prev, [field]: v === UNMAPPED ? undefined : Number(v) }))}
+                  >
+                    <SelectTrigger className="h-8 text-xs bg-muted/30 border-border/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>—</SelectItem>
+                      {headers.map((h, i) => (
+                        <SelectItem key={i} value={String(i)}>{h || `Column ${i + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ['Date format', dateFormat, setDateFormat, DATE_FORMATS, dateCandidates],
+                ['Time format', timeFormat, setTimeFormat, TIME_FORMATS, timeCandidates],
+              ] as const).map(([label, value, onChange, options, detected]) => (
+                <div key={label} className="space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {label}
+                    {detected.length > 1 && <span className="text-warning"> · ambiguous, check it</span>}
+                  </p>
+                  <Select value={value} onValueChange={onChange}>
+                    <SelectTrigger className="h-8 text-xs bg-muted/30 border-border/50 font-mono">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {options.map(f => (
+                        <SelectItem key={f} value={f} className="font-mono">
+                          {f}{detected.includes(f) ? ' ✓' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-sm text-destructive">Map {missing.map(f => FIELD_LABELS[f]).join(', ')} to continue.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {imported !== null ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : report ? (
+            <>
+              <Button variant="ghost" onClick={() => setReport(null)}>Back</Button>
+              <Button onClick={handleImport} disabled={report.ready.length === 0}>
+                Import {report.ready.length} Session{report.ready.length !== 1 ? 's' : ''}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={onClose}>Cancel</Button>
+              <Button onClick={handleDryRun} disabled={missing.length > 0 || dataRows.length === 0}>Check Rows</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,22 +1,32 @@
 import { useState } from 'react';
-import { format, addDays, subDays, parseISO } from 'date-fns';
-import { Plus, Trash2, ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, Pencil, AlertTriangle, ShieldCheck } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { StudySession, EnergyLevel } from '@/lib/types';
+import { StudySession, SessionInput, SessionResult, SessionSaveOptions, EnergyLevel } from '@/lib/types';
+import { endsNextDay, minutesOnDate } from '@/lib/sessionTime';
+import { SessionIssue } from '@/lib/sessionValidation';
+import { QuarantineRecord } from '@/lib/storage';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EditSessionDialog } from '@/components/EditSessionDialog';
+import { DataHealthDialog } from '@/components/DataHealthDialog';
+import { DateNavigator } from '@/components/DateNavigator';
 
 interface DailyLogProps {
   sessions: StudySession[];
   selectedDate: string;
   onDateChange: (date: string) => void;
-  onAddSession: (session: Omit<StudySession, 'id' | 'durationMinutes'>) => void;
+  onAddSession: (session: SessionInput, options?: SessionSaveOptions) => SessionResult;
+  onUpdateSession: (id: string, changes: SessionInput, options?: SessionSaveOptions) => SessionResult;
   onDeleteSession: (id: string) => void;
   dailyTotal: number;
+  healthIssues: SessionIssue[];
+  quarantine: QuarantineRecord[];
+  onClearQuarantine: () => void;
 }
 
-export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, onDeleteSession, dailyTotal }: DailyLogProps) {
+export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, onUpdateSession, onDeleteSession, dailyTotal, healthIssues, quarantine, onClearQuarantine }: DailyLogProps) {
   const [subject, setSubject] = useState('');
   const [startTime, setStartTime] = useState('');
   const [endTime, setEndTime] = useState('');
@@ -24,13 +34,17 @@ export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, o
   const [distractionCount, setDistractionCount] = useState('0');
   const [energyLevel, setEnergyLevel] = useState<EnergyLevel>('medium');
   const [notes, setNotes] = useState('');
+  const [editing, setEditing] = useState<StudySession | null>(null);
+  const [formError, setFormError] = useState('');
+  const [formWarnings, setFormWarnings] = useState<string[]>([]);
+  const [showHealth, setShowHealth] = useState(false);
 
   const daySessions = sessions.filter(s => s.date === selectedDate);
   const isToday = selectedDate === format(new Date(), 'yyyy-MM-dd');
 
-  const handleAdd = () => {
+  const handleAdd = (confirmWarnings = false) => {
     if (!subject || !startTime || !endTime) return;
-    onAddSession({
+    const result = onAddSession({
       date: selectedDate,
       subject,
       startTime,
@@ -39,7 +53,19 @@ export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, o
       distractionCount: parseInt(distractionCount),
       energyLevel,
       notes,
-    });
+    }, { confirmWarnings });
+    if ('error' in result) {
+      setFormError(result.error);
+      setFormWarnings([]);
+      return;
+    }
+    if ('warnings' in result) {
+      setFormError('');
+      setFormWarnings(result.warnings);
+      return;
+    }
+    setFormError('');
+    setFormWarnings([]);
     setSubject('');
     setStartTime('');
     setEndTime('');
@@ -47,11 +73,6 @@ export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, o
     setDistractionCount('0');
   };
 
-  const navigateDate = (dir: number) => {
-    const d = dir > 0 ? addDays(parseISO(selectedDate), 1) : subDays(parseISO(selectedDate), 1);
-    onDateChange(format(d, 'yyyy-MM-dd'));
-  };
-
   const getEnergyColor = (level: EnergyLevel) => {
     switch (level) {
       case 'high': return 'text-success';
@@ -60,39 +81,14 @@ export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, o
     }
   };
 
-  const totalMinutes = daySessions.reduce((s, sess) => s + sess.durationMinutes, 0);
+  const healthCount = healthIssues.length + quarantine.length;
+  const totalMinutes = Math.round(minutesOnDate(sessions, selectedDate));
+  const overnight = !!startTime && !!endTime && endTime < startTime;
 
   return (
     <div className="space-y-5">
       {/* Date Navigation */}
-      <motion.div
-        className="glass-card p-4 flex items-center justify-between"
-        whileHover={{ scale: 1.005 }}
-        transition={{ type: 'spring', stiffness: 400 }}
-      >
-        <button onClick={() => navigateDate(-1)} className="p-2 rounded-lg hover:bg-muted/80 transition-colors">
-          <ChevronLeft className="w-5 h-5 text-muted-foreground" />
-        </button>
-        <div className="flex items-center gap-3">
-          <Calendar className="w-4 h-4 text-primary" />
-          <div className="text-center">
-            <h2 className="font-semibold">
-              {isToday ? 'Today' : format(parseISO(selectedDate), 'EEEE')} — {format(parseISO(selectedDate), 'MMM d, yyyy')}
-            </h2>
-          </div>
-          {!isToday && (
-            <button
-              onClick={() => onDateChange(format(new Date(), 'yyyy-MM-dd'))}
-              className="text-xs text-primary hover:underline ml-2"
-            >
-              Go to Today
-            </button>
-          )}
-        </div>
-        <button onClick={() => navigateDate(1)} className="p-2 rounded-lg hover:bg-muted/80 transition-colors">
-          <ChevronRight className="w-5 h-5 text-muted-foreground" />
-        </button>
-      </motion.div>
+      <DateNavigator date={selectedDate} onChange={onDateChange} />
 
       {/* Today's Summary */}
       <motion.div
@@ -209,14 +205,42 @@ export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, o
             className="bg-muted/30 border-border/50"
           />
         </div>
-        <Button onClick={handleAdd} className="w-full" disabled={!subject || !startTime || !endTime}>
-          <Plus className="w-4 h-4 mr-2" /> Log Session
-        </Button>
+        {formError ? (
+          <p className="text-sm text-destructive">{formError}</p>
+        ) : overnight && (
+          <p className="text-xs text-muted-foreground">Ends the next day — minutes after midnight count toward that day.</p>
+        )}
+        {formWarnings.length > 0 ? (
+          <div className="rounded-lg border border-warning/40 bg-warning/10 p-3 space-y-2">
+            {formWarnings.map(w => (
+              <p key={w} className="text-sm text-warning flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {w}
+              </p>
+            ))}
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setFormWarnings([])}>Cancel</Button>
+              <Button size="sm" onClick={() => handleAdd(true)}>Log Anyway</Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => handleAdd()} className="w-full" disabled={!subject || !startTime || !endTime}>
+            <Plus className="w-4 h-4 mr-2" /> Log Session
+          </Button>
+        )}
       </motion.div>
 
       {/* Sessions List */}
       <div className="space-y-2">
-        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider px-1">Sessions</h3>
+        <div className="flex items-center justify-between px-1">
+          <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Sessions</h3>
+          <button
+            onClick={() => setShowHealth(true)}
+            className={`flex items-center gap-1.5 text-xs transition-colors ${healthCount > 0 ? 'text-warning hover:text-warning/80' : 'text-muted-foreground hover:text-foreground'}`}
+          >
+            {healthCount > 0 ? <AlertTriangle className="w-3.5 h-3.5" /> : <ShieldCheck className="w-3.5 h-3.5" />}
+            Data health{healthCount > 0 && ` (${healthCount})`}
+          </button>
+        </div>
         {daySessions.length === 0 ? (
           <motion.div
             className="glass-card p-10 text-center"
@@ -244,6 +268,7 @@ export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, o
                       <span className="font-semibold text-foreground">{session.subject}</span>
                       <span className="font-mono text-xs text-muted-foreground bg-muted/60 px-2 py-0.5 rounded-md">
                         {session.startTime} → {session.endTime}
+                        {endsNextDay(session) && <sup className="ml-0.5 text-primary">+1</sup>}
                       </span>
                       <span className="font-mono text-sm text-primary font-bold">
                         {Math.floor(session.durationMinutes / 60)}h {session.durationMinutes % 60}m
@@ -260,20 +285,40 @@ export function DailyLog({ sessions, selectedDate, onDateChange, onAddSession, o
                       {session.notes && <span className="italic">"{session.notes}"</span>}
                     </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => onDeleteSession(session.id)}
-                    className="opacity-0 group-hover:opacity-100 text-destructive hover:text-destructive shrink-0 transition-opacity"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 shrink-0 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing(session)}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDeleteSession(session.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
               </motion.div>
             ))}
           </AnimatePresence>
         )}
       </div>
+
+      <EditSessionDialog session={editing} onSave={onUpdateSession} onClose={() => setEditing(null)} />
+      <DataHealthDialog
+        issues={healthIssues}
+        quarantine={quarantine}
+        onClearQuarantine={onClearQuarantine}
+        open={showHealth}
+        onOpenChange={setShowHealth}
+        onSelectDate={onDateChange}
+      />
     </div>
   );
 }
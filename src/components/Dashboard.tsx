@@ -1,8 +1,11 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
-import { startOfWeek } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, BarChart, Bar, ReferenceLine } from 'recharts';
+import { format, parseISO, startOfWeek, subDays } from 'date-fns';
 import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { getHabitValues } from '@/lib/habits';
+import { HabitInsights } from '@/components/HabitInsights';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface DashboardProps {
   tracker: ReturnType<typeof useStudyTracker>;
@@ -18,6 +21,8 @@ const TOOLTIP_STYLE = {
   boxShadow: '0 8px 32px hsl(0 0% 0% / 0.4)',
 };
 
+const HABIT_VALUE_DAYS = 30;
+
 const cardVariants = {
   hidden: { opacity: 0, y: 20 },
   visible: (i: number) => ({
@@ -41,14 +46,21 @@ export function Dashboard({ tracker }: DashboardProps) {
   }, [weeklyStats.subjectMap]);
 
   const habitData = useMemo(() => {
-    const labels = ['Wake Up', 'Sleep', 'Exercise', 'English', 'No Porn', 'No Social'];
-    const keys = ['wakeUpOnTime', 'sleepEnough', 'exercise', 'englishPractice', 'noPorn', 'noSocialMedia'] as const;
-    return labels.map((label, i) => {
-      const streak = tracker.getHabitStreaks()[keys[i]] || 0;
-      return { name: label, streak };
-    });
+    const streaks = tracker.getHabitStreaks();
+    return tracker.activeHabits.map(habit => ({ name: habit.label, streak: streaks[habit.id]?.current ?? 0 }));
   }, [tracker]);
 
+  const measuredHabits = useMemo(() => tracker.activeHabits.filter(h => h.measure), [tracker.activeHabits]);
+  const [valueHabitId, setValueHabitId] = useState<string | null>(null);
+  const valueHabit = measuredHabits.find(h => h.id === valueHabitId) ?? measuredHabits[0];
+
+  const valueData = useMemo(() => {
+    if (!valueHabit) return [];
+    const dates = Array.from({ length: HABIT_VALUE_DAYS }, (_, i) => format(subDays(new Date(), HABIT_VALUE_DAYS - 1 - i), 'yyyy-MM-dd'));
+    const values = getHabitValues(tracker.habitEntries, valueHabit.id, dates);
+    return dates.map((date, i) => ({ date: format(parseISO(date), 'MMM d'), value: values[i] }));
+  }, [tracker.habitEntries, valueHabit]);
+
   const focusData = useMemo(() => {
     return last7Days.map(d => ({
       date: d.date,
@@ -153,6 +165,44 @@ export function Dashboard({ tracker }: DashboardProps) {
         </motion.div>
       </div>
 
+      <HabitInsights tracker={tracker} />
+
+      {/* Measured Habit Values */}
+      {valueHabit?.measure && (
+        <motion.div
+          className="glass-card p-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.45 }}
+        >
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+              Habit Values (Last {HABIT_VALUE_DAYS} Days)
+            </h3>
+            <Select value={valueHabit.id} onValueChange={setValueHabitId}>
+              <SelectTrigger className="w-48 h-8 bg-muted/30 border-border/50 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {measuredHabits.map(h => (
+                  <SelectItem key={h.id} value={h.id}>{h.icon} {h.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={valueData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(220, 14%, 16%)" />
+              <XAxis dataKey="date" stroke="hsl(220, 10%, 50%)" fontSize={10} />
+              <YAxis stroke="hsl(220, 10%, 50%)" fontSize={12} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => [`${value} ${valueHabit.measure?.unit ?? ''}`, valueHabit.label]} />
+              <ReferenceLine y={valueHabit.measure.target} stroke="hsl(142, 60%, 45%)" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="value" connectNulls stroke="hsl(280, 60%, 60%)" strokeWidth={3} dot={{ fill: 'hsl(280, 60%, 60%)', r: 3 }} activeDot={{ r: 6 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </motion.div>
+      )}
+
       {/* Focus Trend */}
       <motion.div
         className="glass-card p-6"
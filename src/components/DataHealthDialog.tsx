@@ -0,0 +1,85 @@
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Archive, CheckCircle2, XCircle } from 'lucide-react';
+import { SessionIssue } from '@/lib/sessionValidation';
+import { QuarantineRecord } from '@/lib/storage';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface DataHealthDialogProps {
+  issues: SessionIssue[];
+  quarantine: QuarantineRecord[];
+  onClearQuarantine: () => void;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectDate: (date: string) => void;
+}
+
+export function DataHealthDialog({ issues, quarantine, onClearQuarantine, open, onOpenChange, onSelectDate }: DataHealthDialogProps) {
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle>Data Health</DialogTitle>
+          <DialogDescription>
+            {issues.length === 0
+              ?'No overlapping, future-dated or implausible sessions found.'
+              : `${errorCount} error${errorCount !== 1 ? 's' : ''} and ${issues.length - errorCount} warning${issues.length - errorCount !== 1 ? 's' : ''} in your history. Open a day to fix it.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {quarantine.length > 0 && (
+          <div className="rounded-lg border border-warning/40 bg-warning/10 p-3 space-y-2">
+            <p className="text-sm text-warning flex items-start gap-2">
+              <Archive className="w-4 h-4 shrink-0 mt-0.5" />
+              {quarantine.length} stored record{quarantine.length !== 1 ? 's' : ''} could not be read and {quarantine.length !== 1 ? 'were' : 'was'} set aside instead of being loaded.
+            </p>
+            <ul className="text-xs text-muted-foreground space-y-1 max-h-24 overflow-y-auto">
+              {quarantine.map(q => (
+                <li key={q.id} className="font-mono truncate" title={JSON.stringify(q.record)}>
+                  {q.store}{q.key ? ` ${q.key}` : ''}: {q.reason}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={onClearQuarantine}>Discard set-aside records</Button>
+            </div>
+          </div>
+        )}
+
+        {issues.length === 0 ? (
+          quarantine.length === 0 && (
+            <div className="py-6 flex justify-center">
+              <CheckCircle2 className="w-10 h-10 text-success" />
+            </div>
+          )
+        ) : (
+          <ScrollArea className="max-h-80 pr-3">
+            <div className="space-y-2">
+              {issues.map((issue, i) => (
+                <button
+                  key={`${issue.code}-${issue.sessionIds.join('-')}-${i}`}
+                  onClick={() => {
+                    onSelectDate(issue.date);
+                    onOpenChange(false);
+                  }}
+                  className="w-full glass-card-hover p-3 flex items-start gap-3 text-left"
+                >
+                  {issue.severity === 'error'
+                    ? <XCircle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                    : <AlertTriangle className="w-4 h-4 text-warning shrink-0 mt-0.5" />}
+                  <div className="space-y-0.5">
+                    <p className="text-xs font-mono text-muted-foreground">{format(parseISO(issue.date), 'EEE, MMM d, yyyy')}</p>
+                    <p className="text-sm text-foreground">{issue.message}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
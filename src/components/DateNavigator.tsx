@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { format, addDays, subDays, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface DateNavigatorProps {
+  date: string;
+  onChange: (date: string) => void;
+  // Latest selectable day, e.g. today for records that cannot be made ahead of time
+  maxDate?: string;
+}
+
+export function DateNavigator({ date, onChange, maxDate }: DateNavigatorProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const isToday = date === today;
+  const canGoForward = !maxDate || date < maxDate;
+
+  const navigate = (dir: number) => {
+    const d = dir > 0 ? addDays(parseISO(date), 1) : subDays(parseISO(date), 1);
+    onChange(format(d, 'yyyy-MM-dd'));
+  };
+
+  return (
+    <motion.div
+      className="glass-card p-4 flex items-center justify-between"
+      whileHover={{ scale: 1.005 }}
+      transition={{ type: 'spring', stiffness: 400 }}
+    >
+      <button onClick={() => navigate(-1)} className="p-2 rounded-lg hover:bg-muted/80 transition-colors" aria-label="Previous day">
+        <ChevronLeft className="w-5 h-5 text-muted-foreground" />
+      </button>
+      <div className="flex items-center gap-3">
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <button className="flex items-center gap-3 rounded-lg px-2 py-1 hover:bg-muted/60 transition-colors">
+              <CalendarIcon className="w-4 h-4 text-primary" />
+              <h2 className="font-semibold">
+                {isToday ? 'Today' : format(parseISO(date), 'EEEE')} — {format(parseISO(date), 'MMM d, yyyy')}
+              </h2>
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="center">
+            <Calendar
+              mode="single"
+              selected={parseISO(date)}
+              defaultMonth={parseISO(date)}
+              disabled={maxDate ? { after: parseISO(maxDate) } : undefined}
+              onSelect={day => {
+                if (!day) return;
+                onChange(format(day, 'yyyy-MM-dd'));
+                setPickerOpen(false);
+              }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+        {!isToday && (
+          <button
+            onClick={() => onChange(today)}
+            className="text-xs text-primary hover:underline ml-2"
+          >
+            Go to Today
+          </button>
+        )}
+      </div>
+      <button
+        onClick={() => navigate(1)}
+        disabled={!canGoForward}
+        className="p-2 rounded-lg hover:bg-muted/80 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        aria-label="Next day"
+      >
+        <ChevronRight className="w-5 h-5 text-muted-foreground" />
+      </button>
+    </motion.div>
+  );
+}
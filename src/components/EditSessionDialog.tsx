@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { EnergyLevel, SessionInput, SessionResult, SessionSaveOptions, StudySession } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface EditSessionDialogProps {
+  session: StudySession | null;
+  onSave: (id: string, changes: SessionInput, options?: SessionSaveOptions) => SessionResult;
+  onClose: () => void;
+}
+
+export function EditSessionDialog({ session, onSave, onClose }: EditSessionDialogProps) {
+  const [date, setDate] = useState('');
+  const [subject, setSubject] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [focusQuality, setFocusQuality] = useState('3');
+  const [distractionCount, setDistractionCount] = useState('0');
+  const [energyLevel, setEnergyLevel] = useState<EnergyLevel>('medium');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!session) return;
+    setDate(session.date);
+    setSubject(session.subject);
+    setStartTime(session.startTime);
+    setEndTime(session.endTime);
+    setFocusQuality(String(session.focusQuality));
+    setDistractionCount(String(session.distractionCount));
+    setEnergyLevel(session.energyLevel);
+    setNotes(session.notes);
+    setError('');
+    setWarnings([]);
+  }, [session]);
+
+  if (!session) return null;
+
+  const handleSave = (confirmWarnings = false) => {
+    if (!date || !subject || !startTime || !endTime) return;
+    const result = onSave(session.id, {
+      date,
+      subject,
+      startTime,
+      endTime,
+      focusQuality: parseInt(focusQuality),
+      distractionCount: Math.max(0, parseInt(distractionCount) || 0),
+      energyLevel,
+      notes,
+    }, { confirmWarnings });
+    if ('error' in result) {
+      setError(result.error);
+      setWarnings([]);
+    } else if ('warnings' in result) {
+      setError('');
+      setWarnings(result.warnings);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle>Edit Session</DialogTitle>
+          <DialogDescription>Change any field, or move the session to another date.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              placeholder="Subject / Task"
+              value={subject}
+              onChange={e => setSubject(e.target.value)}
+              className="col-span-2 bg-muted/30 border-border/50"
+            />
+            <div className="relative col-span-2">
+              <Input
+                type="date"
+                value={date}
+                onChange={e => setDate(e.target.value)}
+                className="bg-muted/30 border-border/50"
+              />
+              <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">Date</span>
+            </div>
+            <div className="relative">
+              <Input
+                type="time"
+                value={startTime}
+                onChange={e => setStartTime(e.target.value)}
+                className="bg-muted/30 border-border/50"
+              />
+              <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">Start</span>
+            </div>
+            <div className="relative">
+              <Input
+                type="time"
+                value={endTime}
+                onChange={e => setEndTime(e.target.value)}
+                className="bg-muted/30 border-border/50"
+              />
+              <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">End</span>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <Select value={focusQuality} onValueChange={setFocusQuality}>
+              <SelectTrigger className="bg-muted/30 border-border/50">
+                <SelectValue placeholder="Focus (1-5)" />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4, 5].map(n => (
+                  <SelectItem key={n} value={String(n)}>{'★'.repeat(n)}{'☆'.repeat(5 - n)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative">
+              <Input
+                type="number"
+                min="0"
+                value={distractionCount}
+                onChange={e => setDistractionCount(e.target.value)}
+                className="bg-muted/30 border-border/50"
+              />
+              <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">Distractions</span>
+            </div>
+            <Select value={energyLevel} onValueChange={(v) => setEnergyLevel(v as EnergyLevel)}>
+              <SelectTrigger className="bg-muted/30 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="high">⚡ High</SelectItem>
+                <SelectItem value="medium">🔋 Medium</SelectItem>
+                <SelectItem value="low">🪫 Low</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            placeholder="Notes (optional)"
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            className="bg-muted/30 border-border/50"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {warnings.map(w => (
+            <p key={w} className="text-sm text-warning flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {w}
+            </p>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          {warnings.length > 0 ? (
+            <Button onClick={() => handleSave(true)}>Save Anyway</Button>
+          ) : (
+            <Button onClick={() => handleSave()} disabled={!date || !subject || !startTime || !endTime}>Save Changes</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
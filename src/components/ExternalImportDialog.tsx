@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { NewSessionInput, SessionResult, StudySession } from '@/lib/types';
+import { readExternalExport, SessionImporter } from '@/lib/importers';
+import { planSessionImport } from '@/lib/sessionCsv';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ImportReportSummary } from '@/components/ImportReportSummary';
+
+export interface ExternalExport {
+  importer: SessionImporter;
+  // Parsed file including its header row
+  rows: string[][];
+}
+
+interface ExternalImportDialogProps {
+  file: ExternalExport | null;
+  sessions: StudySession[];
+  onImport: (inputs: NewSessionInput[]) => SessionResult[];
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 6;
+
+export function ExternalImportDialog({ file, sessions, onImport, onClose }: ExternalImportDialogProps) {
+  const [imported, setImported] = useState<number | null>(null);
+
+  useEffect(() => setImported(null), [file]);
+
+  const report = useMemo(() => {
+    if (!file) return null;
+    const { rows, errors } = readExternalExport(file.importer, file.rows);
+    return planSessionImport(rows, sessions, new Date(), { ready: [], duplicates: [], errors });
+  }, [file, sessions]);
+
+  if (!file || !report) return null;
+
+  const handleImport = () => {
+    const results = onImport(report.ready.map(r => r.input));
+    setImported(results.filter(r => 'id' in r).length);
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-card border-border/50 max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import from {file.importer.name}</DialogTitle>
+          <DialogDescription>
+            {file.rows.length - 1} entr{file.rows.length - 1 !== 1 ? 'ies' : 'y'} found. Entries imported before are recognised and skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {imported !== null ? (
+          <div className="py-6 flex flex-col items-center gap-3">
+            <CheckCircle2 className="w-10 h-10 text-success" />
+            <p className="text-sm">Imported {imported} session{imported !== 1 ? 's' : ''}.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {report.ready.length > 0 && (
+              <table className="w-full text-xs">
+                <tbody>
+                  {report.ready.slice(0, PREVIEW_ROWS).map(({ row, input }) => (
+                    <tr key={row} className="border-b border-border/30 last:border-0">
+                      <td className="py-1.5 font-mono text-muted-foreground whitespace-nowrap">{input.date}</td>
+                      <td className="py-1.5 px-2 font-mono text-muted-foreground whitespace-nowrap">{input.startTime} → {input.endTime}</td>
+                      <td className="py-1.5 truncate max-w-[10rem]" title={input.notes}>{input.subject}</td>
+                      <td className="py-1.5 text-right font-mono">{input.durationMinutes}m</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {report.ready.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">…and {report.ready.length - PREVIEW_ROWS} more.</p>
+            )}
+            <ImportReportSummary report={report} />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {imported !== null ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={onClose}>Cancel</Button>
+              <Button onClick={handleImport} disabled={report.ready.length === 0}>
+                Import {report.ready.length} Session{report.ready.length !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,197 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { addMonths, eachDayOfInterval, endOfMonth, format, getDay, parseISO, setDay, startOfMonth, startOfWeek, subDays, subMonths } from 'date-fns';
+import { ChevronLeft, ChevronRight, History } from 'lucide-react';
+import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { getHabitDayStatuses, getHabitStreak, getMonthlyCompletion, getMostMissedWeekday, HabitDayStatus } from '@/lib/habits';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface HabitHistoryProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+  onSelectDate: (date: string) => void;
+}
+
+type HistoryRange = 'month' | 'year';
+
+const ALL_HABITS = 'all';
+const STATS_MONTHS = 6;
+
+const STATUS_STYLES: Record<HabitDayStatus, string> = {
+  done: 'bg-success',
+  missed: 'bg-destructive/50',
+  rest: 'bg-primary/40',
+  open: 'bg-muted/30 ring-1 ring-inset ring-primary/50',
+  off: 'bg-muted/20',
+};
+
+// Share of due habits done that day, in a few steps so the combined view stays readable
+function ratioStyle(ratio: number): string {
+  if (ratio >= 1) return 'bg-success';
+  if (ratio >= 0.75) return 'bg-success/75';
+  if (ratio >= 0.5) return 'bg-success/50';
+  if (ratio > 0) return 'bg-success/25';
+  return 'bg-destructive/50';
+}
+
+export function HabitHistory({ tracker, onSelectDate }: HabitHistoryProps) {
+  const [habitId, setHabitId] = useState(ALL_HABITS);
+  const [range, setRange] = useState<HistoryRange>('month');
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const selected = useMemo(
+    () => tracker.habits.filter(h => habitId === ALL_HABITS ? !h.archivedAt : h.id === habitId),
+    [tracker.habits, habitId],
+  );
+
+  const dates = useMemo(() => {
+    const start = range === 'month' ? month : startOfWeek(subDays(parseISO(today), 364), { weekStartsOn: 1 });
+    const end = range === 'month' ? endOfMonth(month) : parseISO(today);
+    return eachDayOfInterval({ start, end }).map(d => format(d, 'yyyy-MM-dd'));
+  }, [range, month, today]);
+
+  const statuses = useMemo(
+    () => getHabitDayStatuses(selected, tracker.habitEntries, dates, today),
+    [selected, tracker.habitEntries, dates, today],
+  );
+
+  const stats = useMemo(() => {
+    const monthly = Array.from({ length: STATS_MONTHS }, (_, i) => {
+      const m = format(subMonths(parseISO(today), STATS_MONTHS - 1 - i), 'yyyy-MM');
+      const completion = getMonthlyCompletion(selected, tracker.habitEntries, m, today);
+      return { month: m, rate: habitId === ALL_HABITS ? completion.overall : completion.byHabit[habitId] ?? null };
+    });
+    const longest = selected
+      .map(h => ({ habit: h, streak: getHabitStreak(h, tracker.habitEntries, today) }))
+      .sort((a, b) => b.streak.longest - a.streak.longest)[0];
+    return { monthly, longest, mostMissed: getMostMissedWeekday(selected, tracker.habitEntries, today) };
+  }, [selected, tracker.habitEntries, today, habitId]);
+
+  const cellStyle = (date: string) => {
+    const day = statuses.get(date) ?? [];
+    if (habitId !== ALL_HABITS) return STATUS_STYLES[day[0] ?? 'off'];
+    const due = day.filter(s => s === 'done' || s === 'missed');
+    if (due.length === 0) return day.includes('open') ? STATUS_STYLES.open : STATUS_STYLES.off;
+    return ratioStyle(due.filter(s => s === 'done').length / due.length);
+  };
+
+  const cellTitle = (date: string) => {
+    const day = statuses.get(date) ?? [];
+    const label = format(parseISO(date), 'EEE, MMM d, yyyy');
+    if (habitId !== ALL_HABITS) return `${label}: ${day[0] ?? 'off'}`;
+    const due = day.filter(s => s === 'done' || s === 'missed').length;
+    return due > 0 ? `${label}: ${day.filter(s => s === 'done').length}/${due} done` : label;
+  };
+
+  const renderCell = (date: string, size: string) => (
+    <button
+      key={date}
+      onClick={() => onSelectDate(date)}
+      disabled={date > today}
+      title={cellTitle(date)}
+      className={`${size} rounded-sm transition-transform hover:scale-110 disabled:opacity-30 disabled:hover:scale-100 ${cellStyle(date)}`}
+    />
+  );
+
+  // Monday-first offset of the first day, so weekdays line up in columns
+  const leadingBlanks = (getDay(parseISO(dates[0])) + 6) % 7;
+
+  return (
+    <motion.div
+      className="glass-card p-6 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">History</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={habitId} onValueChange={setHabitId}>
+            <SelectTrigger className="w-44 h-8 bg-muted/30 border-border/50 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_HABITS}>All habits</SelectItem>
+              {tracker.habits.map(h => (
+                <SelectItem key={h.id} value={h.id}>{h.icon} {h.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex rounded-lg bg-muted/30 p-0.5">
+            {(['month', 'year'] as const).map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${
+                  range === r ? 'bg-primary/15 text-primary' : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {range === 'month' ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <button onClick={() => setMonth(m => subMonths(m, 1))} className="p-1 rounded-lg hover:bg-muted/80" aria-label="Previous month">
+              <ChevronLeft className="w-4 h-4 text-muted-foreground" />
+            </button>
+            <span className="text-sm font-medium">{format(month, 'MMMM yyyy')}</span>
+            <button
+              onClick={() => setMonth(m => addMonths(m, 1))}
+              disabled={format(month, 'yyyy-MM') >= today.slice(0, 7)}
+              className="p-1 rounded-lg hover:bg-muted/80 disabled:opacity-30"
+              aria-label="Next month"
+            >
+              <ChevronRight className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </div>
+          <div className="grid grid-cols-7 gap-1.5">
+            {[1, 2, 3, 4, 5, 6, 0].map(d => (
+              <span key={d} className="text-[10px] text-center text-muted-foreground">{format(setDay(new Date(), d), 'EEEEE')}</span>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, i) => <span key={`blank-${i}`} />)}
+            {dates.map(date => renderCell(date, 'h-8 w-full'))}
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="grid grid-rows-7 grid-flow-col gap-1 w-max">
+            {dates.map(date => renderCell(date, 'h-3 w-3'))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 text-center">
+        <div>
+          <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Best Streak</p>
+          <p className="font-mono font-semibold">
+            {stats.longest ? `${stats.longest.streak.longest} ${stats.longest.streak.unit}${stats.longest.streak.longest !== 1 ? 's' : ''}` : '—'}
+          </p>
+          {habitId === ALL_HABITS && stats.longest && stats.longest.streak.longest > 0 && (
+            <p className="text-xs text-muted-foreground truncate">{stats.longest.habit.icon} {stats.longest.habit.label}</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Most Missed</p>
+          <p className="font-mono font-semibold">{stats.mostMissed ? format(setDay(new Date(), stats.mostMissed.day), 'EEEE') : '—'}</p>
+          {stats.mostMissed && <p className="text-xs text-muted-foreground">{stats.mostMissed.misses} missed</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-6 gap-2 text-center">
+        {stats.monthly.map(m => (
+          <div key={m.month} className="rounded-lg bg-muted/20 py-2">
+            <p className="text-[10px] text-muted-foreground uppercase">{format(parseISO(`${m.month}-01`), 'MMM')}</p>
+            <p className="font-mono text-sm font-semibold">{m.rate === null ? '—' : `${m.rate}%`}</p>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
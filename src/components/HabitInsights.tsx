@@ -0,0 +1,108 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { HabitEffect, INSIGHT_METRICS, InsightLag, InsightMetric, MIN_INSIGHT_SAMPLES } from '@/lib/insights';
+
+interface HabitInsightsProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+}
+
+const LAG_LABELS: Record<InsightLag, string> = { sameDay: 'Same day', nextDay: 'Next day' };
+
+const METRICS: Record<InsightMetric, { label: string; unit: string; higherIsBetter: boolean }> = {
+  hours: { label: 'Deep Work', unit: 'h', higherIsBetter: true },
+  focusQuality: { label: 'Focus', unit: '★', higherIsBetter: true },
+  distractionCount: { label: 'Distractions', unit: '', higherIsBetter: false },
+};
+
+// Below this the difference is too small to matter, whatever its sign
+const SMALL_EFFECT = 0.2;
+
+function effectStyle(effect: HabitEffect, higherIsBetter: boolean): string {
+  if (effect.effectSize === null || Math.abs(effect.effectSize) < SMALL_EFFECT) return 'text-muted-foreground';
+  return (effect.effectSize > 0) === higherIsBetter ? 'text-success' : 'text-destructive';
+}
+
+function formatDifference(difference: number, unit: string): string {
+  const rounded = Math.round(difference * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}${unit}`;
+}
+
+export function HabitInsights({ tracker }: HabitInsightsProps) {
+  const [lag, setLag] = useState<InsightLag>('sameDay');
+  const { getHabitInsights } = tracker;
+  const insights = useMemo(() => getHabitInsights(), [getHabitInsights]);
+  const habitsById = new Map(tracker.activeHabits.map(h => [h.id, h]));
+
+  return (
+    <motion.div
+      className="glass-card p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+    >
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Habit Impact</h3>
+        <div className="flex rounded-lg bg-muted/30 p-0.5">
+          {(Object.keys(LAG_LABELS) as InsightLag[]).map(l => (
+            <button
+              key={l}
+              onClick={() => setLag(l)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                lag === l ? 'bg-primary/15 text-primary' : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {LAG_LABELS[l]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Average difference on days a habit was done versus days it was skipped, {lag === 'sameDay' ? 'on the same day' : 'on the day after'}.
+        d is the effect size (0.2 small, 0.5 medium, 0.8 large); at least {MIN_INSIGHT_SAMPLES} days on each side are needed.
+      </p>
+
+      {insights.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">No data yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground uppercase tracking-wider">
+                <th className="text-left font-medium pb-2">Habit</th>
+                {INSIGHT_METRICS.map(metric => (
+                  <th key={metric} className="text-right font-medium pb-2">{METRICS[metric].label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {insights.map(insight => {
+                const habit = habitsById.get(insight.habitId);
+                return (
+                  <tr key={insight.habitId} className="border-t border-border/30">
+                    <td className="py-2 pr-3">{habit?.icon} {habit?.label}</td>
+                    {INSIGHT_METRICS.map(metric => {
+                      const effect = insight.effects.find(e => e.lag === lag && e.metric === metric);
+                      if (!effect) return <td key={metric} />;
+                      return (
+                        <td key={metric} className="py-2 text-right">
+                          <p className={`font-mono font-semibold ${effectStyle(effect, METRICS[metric].higherIsBetter)}`}>
+                            {effect.difference === null ? '—' : formatDifference(effect.difference, METRICS[metric].unit)}
+                          </p>
+                          <p className="text-[10px] text-muted-foreground">
+                            {effect.effectSize !== null && `d ${Math.round(effect.effectSize * 100) / 100} · `}
+                            {effect.doneDays} vs {effect.skippedDays} days
+                          </p>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,313 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, NotebookPen, Plus } from 'lucide-react';
+import { useStudyTracker, HABIT_LOCK_OPTIONS } from '@/hooks/useStudyTracker';
+import { HabitComparison, HabitDefinition, HabitMeasure, HabitSchedule } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface HabitManagerDialogProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_ICON = '✅';
+
+type MeasureKind = 'check' | HabitComparison;
+
+// Monday first, using getDay numbering
+const WEEKDAYS = [
+  { day: 1, label: 'M' }, { day: 2, label: 'T' }, { day: 3, label: 'W' }, { day: 4, label: 'T' },
+  { day: 5, label: 'F' }, { day: 6, label: 'S' }, { day: 0, label: 'S' },
+];
+const MAX_TIMES = { perWeek: 7, perMonth: 31 };
+
+interface ScheduleEditorProps {
+  schedule: HabitSchedule | undefined;
+  onChange: (schedule: HabitSchedule | undefined) => void;
+}
+
+function ScheduleEditor({ schedule, onChange }: ScheduleEditorProps) {
+  const type = schedule?.type ?? 'daily';
+  const [times, setTimes] = useState('');
+  useEffect(() => setTimes(schedule && 'times' in schedule ? String(schedule.times) : ''), [schedule]);
+
+  const changeType = (next: HabitSchedule['type']) => {
+    if (next === 'daily') onChange(undefined);
+    else if (next === 'weekdays') onChange({ type: next, days: [1, 2, 3, 4, 5] });
+    else onChange({ type: next, times: Math.min(schedule && 'times' in schedule ? schedule.times : 3, MAX_TIMES[next]) });
+  };
+
+  const toggleDay = (day: number) => {
+    if (schedule?.type !== 'weekdays') return;
+    const days = schedule.days.includes(day) ? schedule.days.filter(d => d !== day) : [...schedule.days, day];
+    // A habit due on no day at all would never show up
+    if (days.length > 0) onChange({ type: 'weekdays', days });
+  };
+
+  const saveTimes = () => {
+    if (!schedule || !('times' in schedule)) return;
+    const value = Math.round(Number(times));
+    if (value >= 1 && value <= MAX_TIMES[schedule.type] && value !== schedule.times) onChange({ ...schedule, times: value });
+    else setTimes(String(schedule.times));
+  };
+
+  return (
+    <div className="flex items-center gap-2 pl-14">
+      <Select value={type} onValueChange={v => changeType(v as HabitSchedule['type'])}>
+        <SelectTrigger className="w-32 h-8 bg-muted/30 border-border/50 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="daily">Every day</SelectItem>
+          <SelectItem value="weekdays">On weekdays</SelectItem>
+          <SelectItem value="perWeek">Times a week</SelectItem>
+          <SelectItem value="perMonth">Times a month</SelectItem>
+        </SelectContent>
+      </Select>
+      {schedule?.type === 'weekdays' && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map(({ day, label }) => (
+            <button
+              key={day}
+              onClick={() => toggleDay(day)}
+              aria-pressed={schedule.days.includes(day)}
+              className={`w-7 h-7 rounded-md text-xs font-medium border transition-colors ${
+                schedule.days.includes(day)
+                  ? 'bg-primary/15 text-primary border-primary/30'
+                  : 'text-muted-foreground border-transparent hover:bg-muted/40'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {schedule && 'times' in schedule && (
+        <Input
+          type="number"
+          min="1"
+          max={MAX_TIMES[schedule.type]}
+          value={times}
+          onChange={e => setTimes(e.target.value)}
+          onBlur={saveTimes}
+          onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+          aria-label="Times per period"
+          className="w-16 h-8 bg-muted/30 border-border/50 text-xs"
+        />
+      )}
+    </div>
+  );
+}
+
+interface HabitRowProps {
+  habit: HabitDefinition;
+  onChange: (changes: Partial<Pick<HabitDefinition, 'label' | 'icon' | 'measure' | 'schedule' | 'tracksRelapses'>>) => void;
+  children: ReactNode;
+}
+
+// Edits are saved when a field loses focus, so typing does not flood the undo history
+function HabitRow({ habit, onChange, children }: HabitRowProps) {
+  const [label, setLabel] = useState(habit.label);
+  const [icon, setIcon] = useState(habit.icon);
+  const [target, setTarget] = useState('');
+  const [unit, setUnit] = useState('');
+
+  const reset = useCallback(() => {
+    setLabel(habit.label);
+    setIcon(habit.icon);
+    setTarget(habit.measure ? String(habit.measure.target) : '');
+    setUnit(habit.measure?.unit ?? '');
+  }, [habit]);
+  useEffect(reset, [reset]);
+
+  const save = (kind: MeasureKind = habit.measure?.comparison ?? 'check') => {
+    let measure: HabitMeasure | undefined;
+    if (kind !== 'check') {
+      const value = target.trim() === '' ? NaN : Number(target);
+      // An invalid target keeps the previous one, or 1 for a habit that just became measured
+      measure = { unit: unit.trim(), target: value >= 0 ? value : habit.measure?.target ?? 1, comparison: kind };
+    }
+    const changes = { label: label.trim() || habit.label, icon: icon.trim() || DEFAULT_ICON, measure };
+    const unchanged = changes.label === habit.label && changes.icon === habit.icon
+      && measure?.unit === habit.measure?.unit && measure?.target === habit.measure?.target
+      && measure?.comparison === habit.measure?.comparison;
+    // Saving updates the habit, which resets the fields; otherwise undo any invalid input here
+    if (unchanged) reset();
+    else onChange(changes);
+  };
+
+  const kind: MeasureKind = habit.measure?.comparison ?? 'check';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={icon}
+          onChange={e => setIcon(e.target.value)}
+          onBlur={() => save()}
+          aria-label="Icon"
+          className="w-12 text-center bg-muted/30 border-border/50"
+        />
+        <Input
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          onBlur={() => save()}
+          onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+          aria-label="Habit name"
+          className="flex-1 bg-muted/30 border-border/50"
+        />
+        {children}
+      </div>
+      <div className="flex items-center gap-2 pl-14">
+        <Select value={kind} onValueChange={v => save(v as MeasureKind)}>
+          <SelectTrigger className="w-32 h-8 bg-muted/30 border-border/50 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="check">Yes / no</SelectItem>
+            <SelectItem value="atLeast">At least</SelectItem>
+            <SelectItem value="atMost">At most</SelectItem>
+          </SelectContent>
+        </Select>
+        {kind !== 'check' && (
+          <>
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={target}
+              onChange={e => setTarget(e.target.value)}
+              onBlur={() => save()}
+              aria-label="Target"
+              className="w-20 h-8 bg-muted/30 border-border/50 text-xs"
+            />
+            <Input
+              placeholder="unit"
+              value={unit}
+              onChange={e => setUnit(e.target.value)}
+              onBlur={() => save()}
+              aria-label="Unit"
+              className="w-24 h-8 bg-muted/30 border-border/50 text-xs"
+            />
+          </>
+        )}
+        <button
+          onClick={() => onChange({ tracksRelapses: !habit.tracksRelapses })}
+          aria-pressed={!!habit.tracksRelapses}
+          title="Keep a relapse journal for a habit you are quitting"
+          className={`ml-auto flex items-center gap-1 h-8 px-2 rounded-md text-xs font-medium border transition-colors ${
+            habit.tracksRelapses
+              ? 'bg-primary/15 text-primary border-primary/30'
+              : 'text-muted-foreground border-transparent hover:bg-muted/40'
+          }`}
+        >
+          <NotebookPen className="w-3.5 h-3.5" /> Relapses
+        </button>
+      </div>
+      <ScheduleEditor schedule={habit.schedule} onChange={schedule => onChange({ schedule })} />
+    </div>
+  );
+}
+
+export function HabitManagerDialog({ tracker, open, onOpenChange }: HabitManagerDialogProps) {
+  const [newLabel, setNewLabel] = useState('');
+  const [newIcon, setNewIcon] = useState('');
+  const archived = tracker.habits.filter(h => h.archivedAt);
+
+  const handleAdd = () => {
+    if (!newLabel.trim()) return;
+    tracker.addHabit(newLabel.trim(), newIcon.trim() || DEFAULT_ICON);
+    setNewLabel('');
+    setNewIcon('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle>Manage Habits</DialogTitle>
+          <DialogDescription>
+            Add, rename and reorder your habits, set how often each is due, give one a target to record a number instead of yes/no,
+            or keep a relapse journal for a habit you are quitting.
+            Archived habits stop counting from today but keep their history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-80 pr-3">
+          <div className="space-y-2">
+            {tracker.activeHabits.map((habit, i) => (
+              <HabitRow key={habit.id} habit={habit} onChange={changes => tracker.updateHabit(habit.id, changes)}>
+                <Button variant="ghost" size="icon" disabled={i === 0} onClick={() => tracker.moveHabit(habit.id, -1)} aria-label="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" disabled={i === tracker.activeHabits.length - 1} onClick={() => tracker.moveHabit(habit.id, 1)} aria-label="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => tracker.archiveHabit(habit.id)} aria-label="Archive">
+                  <Archive className="w-4 h-4" />
+                </Button>
+              </HabitRow>
+            ))}
+
+            {archived.length > 0 && (
+              <>
+                <p className="text-xs text-muted-foreground uppercase tracking-wider pt-3">Archived</p>
+                {archived.map(habit => (
+                  <div key={habit.id} className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                    <span>{habit.icon} {habit.label}</span>
+                    <Button variant="ghost" size="sm" onClick={() => tracker.unarchiveHabit(habit.id)}>
+                      <ArchiveRestore className="w-4 h-4 mr-1" /> Unarchive
+                    </Button>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center gap-2 pt-2 border-t border-border/50">
+          <Input
+            placeholder={DEFAULT_ICON}
+            value={newIcon}
+            onChange={e => setNewIcon(e.target.value)}
+            aria-label="New habit icon"
+            className="w-12 text-center bg-muted/30 border-border/50"
+          />
+          <Input
+            placeholder="New habit"
+            value={newLabel}
+            onChange={e => setNewLabel(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleAdd()}
+            className="flex-1 bg-muted/30 border-border/50"
+          />
+          <Button onClick={handleAdd} disabled={!newLabel.trim()}>
+            <Plus className="w-4 h-4 mr-1" /> Add
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-muted-foreground">Past days become read-only</span>
+          <Select
+            value={String(tracker.habitLockDays ?? 'never')}
+            onValueChange={v => tracker.updateHabitLock(v === 'never' ? null : Number(v))}
+          >
+            <SelectTrigger className="h-8 w-32 text-xs bg-muted/30 border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HABIT_LOCK_OPTIONS.map(days => (
+                <SelectItem key={String(days)} value={String(days ?? 'never')}>
+                  {days === null ? 'Never' : `After ${days} day${days !== 1 ? 's' : ''}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,55 +1,219 @@
+import { useEffect, useState } from 'react';
 import { format } from 'date-fns';
 import { motion } from 'framer-motion';
-import { DailyHabits } from '@/lib/types';
-import { Check, X, Flame } from 'lucide-react';
+import { Check, X, Flame, Lock, NotebookPen, Settings2, Snowflake } from 'lucide-react';
+import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { formatMeasure, formatSchedule, getPeriodProgress, HabitStreak, isHabitActiveOn, isHabitScheduledOn, schedulePeriod, targetProgress } from '@/lib/habits';
+import { HabitDefinition, HabitEntry, HabitMeasure } from '@/lib/types';
+import { HabitManagerDialog } from '@/components/HabitManagerDialog';
+import { DateNavigator } from '@/components/DateNavigator';
+import { HabitHistory } from '@/components/HabitHistory';
+import { RelapseDialog } from '@/components/RelapseDialog';
+import { RelapseJournal } from '@/components/RelapseJournal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 
 interface HabitTrackerProps {
-  habits: DailyHabits | undefined;
-  onUpdate: (habits: DailyHabits) => void;
-  streaks: Record<string, number>;
-  monthlyCompletion: { overall: number; english: number };
+  tracker: ReturnType<typeof useStudyTracker>;
 }
 
-const HABIT_CONFIG = [
-  { key: 'wakeUpOnTime' as const, label: 'Wake Up On Time', icon: '🌅' },
-  { key: 'sleepEnough' as const, label: 'Sleep ≥ 7 Hours', icon: '😴' },
-  { key: 'exercise' as const, label: 'Exercise / Walk', icon: '🏃' },
-  { key: 'englishPractice' as const, label: 'English Practice (1hr)', icon: '📖' },
-  { key: 'noPorn' as const, label: 'No Porn', icon: '🛡️' },
-  { key: 'noSocialMedia' as const, label: 'No Social Media', icon: '📵' },
-];
+function StreakBadge({ streak }: { streak: HabitStreak | undefined }) {
+  if (!streak || streak.longest <= 0) return null;
+  return (
+    <div className="flex items-center gap-1 text-sm" title={`Current streak ${streak.current} ${streak.unit}s, longest ${streak.longest}`}>
+      {streak.current > 0 && (
+        <span className="flex items-center gap-1 text-primary">
+          <Flame className="w-4 h-4" />
+          <span className="font-mono font-semibold">{streak.current}{streak.unit !== 'day' && streak.unit[0]}</span>
+        </span>
+      )}
+      {streak.longest > streak.current && (
+        <span className="text-xs text-muted-foreground font-mono">best {streak.longest}</span>
+      )}
+    </div>
+  );
+}
+
+interface RestButtonProps {
+  rest: boolean;
+  disabled: boolean;
+  onToggle: () => void;
+}
+
+// A rest day keeps the streak going without counting as done
+function RestButton({ rest, disabled, onToggle }: RestButtonProps) {
+  return (
+    <button
+      onClick={onToggle}
+      disabled={disabled}
+      title={rest ? 'Clear rest day' : 'Rest day: keep the streak without checking in'}
+      aria-pressed={rest}
+      className={`p-2 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+        rest ? 'text-primary bg-primary/10' : 'text-muted-foreground/60 hover:text-muted-foreground hover:bg-muted/40'
+      }`}
+    >
+      <Snowflake className="w-4 h-4" />
+    </button>
+  );
+}
+
+interface RelapseButtonProps {
+  count: number;
+  onClick: () => void;
+}
+
+// Opens the relapse journal of the day; still viewable when the day is read-only
+function RelapseButton({ count, onClick }: RelapseButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      title={count > 0 ? `${count} relapse${count !== 1 ? 's' : ''} logged` : 'Log a relapse'}
+      className={`relative p-2 rounded-lg transition-colors ${
+        count > 0 ? 'text-destructive bg-destructive/10' : 'text-muted-foreground/60 hover:text-muted-foreground hover:bg-muted/40'
+      }`}
+    >
+      <NotebookPen className="w-4 h-4" />
+      {count > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-destructive-foreground font-mono">
+          {count}
+        </span>
+      )}
+    </button>
+  );
+}
+
+interface MeasuredHabitRowProps {
+  habit: HabitDefinition & { measure: HabitMeasure };
+  entry: HabitEntry | undefined;
+  streak: HabitStreak | undefined;
+  note: string;
+  index: number;
+  disabled: boolean;
+  onChange: (value: number | null) => void;
+  onToggleRest: () => void;
+  onOpenRelapses?: () => void;
+}
 
-export function HabitTracker({ habits, onUpdate, streaks, monthlyCompletion }: HabitTrackerProps) {
+// Measured habits take a number instead of a toggle, saved when the field loses focus
+function MeasuredHabitRow({ habit, entry, streak, note, index, disabled, onChange, onToggleRest, onOpenRelapses }: MeasuredHabitRowProps) {
+  const [value, setValue] = useState('');
+  useEffect(() => setValue(entry?.value !== undefined ? String(entry.value) : ''), [entry]);
+
+  const save = () => {
+    const parsed = value.trim() === '' ? null : Number(value);
+    if (parsed !== null && (isNaN(parsed) || parsed < 0)) {
+      setValue(entry?.value !== undefined ? String(entry.value) : '');
+      return;
+    }
+    if (parsed !== (entry?.value ?? null)) onChange(parsed);
+  };
+
+  const isDone = !!entry?.done;
+  const progress = entry?.value !== undefined ? targetProgress(habit.measure, entry.value) : 0;
+  // Going over a limit is the failure case, so the bar turns red instead of green
+  const overLimit = habit.measure.comparison === 'atMost' && !!entry && !isDone;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: index * 0.06 }}
+      className={`glass-card-hover p-4 space-y-3 ${isDone ? 'border-success/30 glow-success' : ''}`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-xl">{habit.icon}</span>
+          <div className="min-w-0">
+            <p className={`font-medium truncate ${isDone ? 'text-foreground' : 'text-muted-foreground'}`}>{habit.label}</p>
+            <p className="text-xs text-muted-foreground font-mono">{entry?.rest ? 'Rest day' : [formatMeasure(habit.measure), note].filter(Boolean).join(' · ')}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <StreakBadge streak={streak} />
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            inputMode="decimal"
+            placeholder="—"
+            value={value}
+            disabled={disabled}
+            onChange={e => setValue(e.target.value)}
+            onBlur={save}
+            onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+            aria-label={`${habit.label} (${habit.measure.unit})`}
+            className="w-24 text-right bg-muted/30 border-border/50"
+          />
+          {onOpenRelapses && <RelapseButton count={entry?.relapses?.length ?? 0} onClick={onOpenRelapses} />}
+          <RestButton rest={!!entry?.rest} disabled={disabled} onToggle={onToggleRest} />
+        </div>
+      </div>
+      <div className="w-full bg-muted/60 rounded-full h-1.5 overflow-hidden">
+        <div
+          className={`h-1.5 rounded-full transition-all ${overLimit ? 'bg-destructive' : isDone ? 'bg-success' : 'bg-primary'}`}
+          style={{ width: `${Math.round(progress * 100)}%` }}
+        />
+      </div>
+    </motion.div>
+  );
+}
+
+export function HabitTracker({ tracker }: HabitTrackerProps) {
+  const [managing, setManaging] = useState(false);
+  const [relapseHabit, setRelapseHabit] = useState<HabitDefinition | null>(null);
   const today = format(new Date(), 'yyyy-MM-dd');
-  const currentHabits: DailyHabits = habits || {
-    date: today,
-    wakeUpOnTime: false,
-    sleepEnough: false,
-    exercise: false,
-    englishPractice: false,
-    noPorn: false,
-    noSocialMedia: false,
+  const [selectedDate, setSelectedDate] = useState(today);
+  const isToday = selectedDate === today;
+  const locked = tracker.isHabitDayLocked(selectedDate);
+  const habits = tracker.habits.filter(h => isHabitActiveOn(h, selectedDate) && isHabitScheduledOn(h, selectedDate));
+  const progress = Object.fromEntries(habits.map(h => [h.id, getPeriodProgress(h, tracker.habitEntries, selectedDate)]));
+  // Quota habits count as done for the day once the week's or month's quota is met
+  const isDoneForDay = (id: string) => !!dayEntries[id]?.done || (!!progress[id] && progress[id].done >= progress[id].required);
+  const scheduleNote = (habit: HabitDefinition) => {
+    const period = schedulePeriod(habit.schedule);
+    const p = progress[habit.id];
+    if (period && p) return `${p.done}/${p.required} this ${period}`;
+    return habit.schedule?.type === 'weekdays' ? formatSchedule(habit.schedule) : '';
   };
+  const dayEntries = tracker.getHabitEntriesForDate(selectedDate);
+  const streaks = tracker.getHabitStreaks();
+  const monthlyCompletion = tracker.getMonthlyHabitCompletion();
 
-  const toggleHabit = (key: keyof DailyHabits) => {
-    if (key === 'date') return;
-    onUpdate({ ...currentHabits, date: today, [key]: !currentHabits[key] });
+  const openDay = (date: string) => {
+    setSelectedDate(date);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const completedCount = HABIT_CONFIG.filter(h => currentHabits[h.key]).length;
-  const completionPercent = Math.round((completedCount / HABIT_CONFIG.length) * 100);
+  const completedCount = habits.filter(h => isDoneForDay(h.id)).length;
+  const completionPercent = habits.length > 0 ? Math.round((completedCount / habits.length) * 100) : 0;
+  // The habit with the best completion this month, among those still tracked
+  const bestHabit = habits
+    .filter(h => monthlyCompletion.byHabit[h.id] !== undefined)
+    .sort((a, b) => monthlyCompletion.byHabit[b.id] - monthlyCompletion.byHabit[a.id])[0];
 
   return (
     <div className="space-y-5">
-      {/* Today's Overview */}
+      <DateNavigator date={selectedDate} onChange={setSelectedDate} maxDate={today} />
+
+      {/* Day Overview */}
       <motion.div
         className="glass-card p-6"
         initial={{ opacity: 0, scale: 0.98 }}
         animate={{ opacity: 1, scale: 1 }}
       >
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-semibold">Today's Habits</h2>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            {isToday ? "Today's Habits" : 'Habits'}
+            {locked && (
+              <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                <Lock className="w-3.5 h-3.5" /> Read-only
+              </span>
+            )}
+          </h2>
           <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => setManaging(true)} aria-label="Manage habits">
+              <Settings2 className="w-4 h-4" />
+            </Button>
             <span className={`stat-value text-2xl ${completionPercent === 100 ? 'text-success' : completionPercent >= 50 ? 'text-gradient-primary' : 'text-destructive'}`}>
               {completionPercent}%
             </span>
@@ -72,46 +236,80 @@ export function HabitTracker({ habits, onUpdate, streaks, monthlyCompletion }: H
 
       {/* Habit Toggles */}
       <div className="grid gap-3">
-        {HABIT_CONFIG.map((habit, i) => {
-          const isChecked = currentHabits[habit.key];
-          const streak = streaks[habit.key] || 0;
+        {habits.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {tracker.habits.length === 0 ? 'No habits yet. Add one to start tracking.' : 'No habits were tracked on this day.'}
+          </p>
+        )}
+        {habits.map((habit, i) => {
+          const isChecked = !!dayEntries[habit.id]?.done;
+          // Removing the day's relapses is the only way to count it as done again
+          const relapsed = !!dayEntries[habit.id]?.relapses?.length;
+          const streak = streaks[habit.id];
+          const isRest = !!dayEntries[habit.id]?.rest;
+          const toggleRest = () => tracker.setHabitRest(habit.id, selectedDate, !isRest);
+          const openRelapses = habit.tracksRelapses ? () => setRelapseHabit(habit) : undefined;
+          if (habit.measure) {
+            return (
+              <MeasuredHabitRow
+                key={habit.id}
+                habit={{ ...habit, measure: habit.measure }}
+                entry={dayEntries[habit.id]}
+                streak={streak}
+                note={scheduleNote(habit)}
+                index={i}
+                disabled={locked}
+                onChange={value => tracker.setHabitValue(habit.id, selectedDate, value)}
+                onToggleRest={toggleRest}
+                onOpenRelapses={openRelapses}
+              />
+            );
+          }
           return (
-            <motion.button
-              key={habit.key}
+            <motion.div
+              key={habit.id}
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: i * 0.06 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => toggleHabit(habit.key)}
-              className={`glass-card-hover p-4 flex items-center justify-between text-left ${
-                isChecked ? 'border-success/30 glow-success' : ''
-              }`}
+              className={`glass-card-hover p-4 flex items-center gap-2 ${isChecked ? 'border-success/30 glow-success' : ''}`}
             >
-              <div className="flex items-center gap-3">
-                <span className="text-xl">{habit.icon}</span>
-                <span className={`font-medium ${isChecked ? 'text-foreground' : 'text-muted-foreground'}`}>
-                  {habit.label}
-                </span>
-              </div>
-              <div className="flex items-center gap-3">
-                {streak > 0 && (
-                  <div className="flex items-center gap-1 text-primary text-sm">
-                    <Flame className="w-4 h-4" />
-                    <span className="font-mono font-semibold">{streak}</span>
+              <motion.button
+                whileTap={locked || relapsed ? undefined : { scale: 0.98 }}
+                disabled={locked || relapsed}
+                title={relapsed ? 'A relapse is logged for this day' : undefined}
+                onClick={() => tracker.setHabitDone(habit.id, selectedDate, !isChecked)}
+                className="flex-1 flex items-center justify-between text-left disabled:cursor-not-allowed"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-xl">{habit.icon}</span>
+                  <div>
+                    <span className={`font-medium ${isChecked ? 'text-foreground' : 'text-muted-foreground'}`}>
+                      {habit.label}
+                    </span>
+                    {(isRest || scheduleNote(habit)) && (
+                      <p className={`text-xs ${isRest ? 'text-primary' : 'text-muted-foreground font-mono'}`}>
+                        {isRest ? 'Rest day' : scheduleNote(habit)}
+                      </p>
+                    )}
                   </div>
-                )}
-                <motion.div
-                  animate={{
-                    scale: isChecked ? [1, 1.2, 1] : 1,
-                    backgroundColor: isChecked ? 'hsl(142, 60%, 45%)' : 'hsl(220, 14%, 14%)',
-                  }}
-                  transition={{ duration: 0.3 }}
-                  className="w-8 h-8 rounded-full flex items-center justify-center"
-                >
-                  {isChecked ? <Check className="w-4 h-4 text-success-foreground" /> : <X className="w-4 h-4 text-muted-foreground" />}
-                </motion.div>
-              </div>
-            </motion.button>
+                </div>
+                <div className="flex items-center gap-3">
+                  <StreakBadge streak={streak} />
+                  <motion.div
+                    animate={{
+                      scale: isChecked ? [1, 1.2, 1] : 1,
+                      backgroundColor: isChecked ? 'hsl(142, 60%, 45%)' : 'hsl(220, 14%, 14%)',
+                    }}
+                    transition={{ duration: 0.3 }}
+                    className="w-8 h-8 rounded-full flex items-center justify-center"
+                  >
+                    {isChecked ? <Check className="w-4 h-4 text-success-foreground" /> : <X className="w-4 h-4 text-muted-foreground" />}
+                  </motion.div>
+                </div>
+              </motion.button>
+              {openRelapses && <RelapseButton count={dayEntries[habit.id]?.relapses?.length ?? 0} onClick={openRelapses} />}
+              <RestButton rest={isRest} disabled={locked} onToggle={toggleRest} />
+            </motion.div>
           );
         })}
       </div>
@@ -131,10 +329,18 @@ export function HabitTracker({ habits, onUpdate, streaks, monthlyCompletion }: H
           whileHover={{ scale: 1.02 }}
           transition={{ type: 'spring', stiffness: 300 }}
         >
-          <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2">English Practice</p>
-          <p className="stat-value text-gradient-primary">{monthlyCompletion.english}%</p>
+          <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2 truncate">
+            {bestHabit ? `${bestHabit.icon} ${bestHabit.label}` : 'Best Habit'}
+          </p>
+          <p className="stat-value text-gradient-primary">{bestHabit ? monthlyCompletion.byHabit[bestHabit.id] : 0}%</p>
         </motion.div>
       </div>
+
+      <HabitHistory tracker={tracker} onSelectDate={openDay} />
+      <RelapseJournal tracker={tracker} onSelectDate={openDay} />
+
+      <HabitManagerDialog tracker={tracker} open={managing} onOpenChange={setManaging} />
+      <RelapseDialog tracker={tracker} habit={relapseHabit} date={selectedDate} onOpenChange={open => !open && setRelapseHabit(null)} />
     </div>
   );
 }
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { BackupData, ConflictResolution, diffBackup, ImportMode, ParsedBackup } from '@/lib/backup';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface ImportBackupDialogProps {
+  backup: ParsedBackup | null;
+  current: BackupData;
+  onImport: (mode: ImportMode, resolution: ConflictResolution, includeSettings: boolean) => void;
+  onClose: () => void;
+}
+
+const STORE_LABELS = { sessions: 'Sessions', habitDefinitions: 'Habits', habitEntries: 'Habit check-ins', targets: 'Weekly targets' } as const;
+
+export function ImportBackupDialog({ backup, current, onImport, onClose }: ImportBackupDialogProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [resolution, setResolution] = useState<ConflictResolution>('keep');
+  const [includeSettings, setIncludeSettings] = useState(true);
+
+  useEffect(() => {
+    if (!backup) return;
+    setMode('merge');
+    setResolution('keep');
+    setIncludeSettings(!!backup.settings);
+  }, [backup]);
+
+  const diff = useMemo(() => backup ? diffBackup(current, backup.data) : null, [backup, current]);
+
+  if (!backup || !diff) return null;
+
+  const stores = (Object.keys(STORE_LABELS) as (keyof typeof STORE_LABELS)[]);
+  const conflicts = stores.flatMap(store => diff[store].conflicts.map(c => ({ store, ...c })));
+  const localOnlyCount = stores.reduce((sum, store) => sum + diff[store].localOnly.length, 0);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-card border-border/50 max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Backup</DialogTitle>
+          <DialogDescription>
+            Exported {format(parseISO(backup.exportedAt), 'MMM d, yyyy HH:mm')}. Review what will change before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] text-muted-foreground uppercase tracking-wider">
+                <th className="text-left font-medium pb-2"></th>
+                <th className="text-right font-medium pb-2">New</th>
+                <th className="text-right font-medium pb-2">Conflicts</th>
+                <th className="text-right font-medium pb-2">Same</th>
+                <th className="text-right font-medium pb-2">Only here</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {stores.map(store => (
+                <tr key={store}>
+                  <td className="font-sans text-muted-foreground py-1">{STORE_LABELS[store]}</td>
+                  <td className="text-right text-success">{diff[store].added.length}</td>
+                  <td className={`text-right ${diff[store].conflicts.length > 0 ? 'text-warning' : ''}`}>{diff[store].conflicts.length}</td>
+                  <td className="text-right text-muted-foreground">{diff[store].unchanged}</td>
+                  <td className="text-right">{diff[store].localOnly.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['merge', 'replace'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`rounded-lg border p-3 text-left transition-all ${
+                  mode === m ? 'bg-primary/15 border-primary/30' : 'border-border/50 hover:bg-muted/40'
+                }`}
+              >
+                <p className={`text-sm font-medium ${mode === m ? 'text-primary' : ''}`}>{m === 'merge' ? 'Merge' : 'Replace'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {m === 'merge' ? 'Add records from the backup and keep everything here.' : 'Make this device an exact copy of the backup.'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {mode === 'replace' && localOnlyCount > 0 && (
+            <p className="text-sm text-warning flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              {localOnlyCount} record{localOnlyCount !== 1 ? 's' : ''} not in the backup will be deleted.
+            </p>
+          )}
+
+          {mode === 'merge' && conflicts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground uppercase tracking-wider">
+                {conflicts.length} record{conflicts.length !== 1 ? 's differ' : ' differs'} between this device and the backup
+              </p>
+              <ScrollArea className="max-h-32 pr-3">
+                <ul className="space-y-1 text-xs font-mono text-muted-foreground">
+                  {conflicts.map(c => (
+                    <li key={`${c.store}-${c.key}`} className="truncate">
+                      {STORE_LABELS[c.store]} {c.key}: {c.fields.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+              <div className="flex gap-1">
+                {(['keep', 'overwrite'] as const).map(r => (
+                  <button
+                    key={r}
+                    onClick={() => setResolution(r)}
+                    className={`flex-1 rounded-lg text-xs font-medium border py-1.5 transition-all ${
+                      resolution === r
+                        ? 'bg-primary/15 text-primary border-primary/30'
+                        : 'text-muted-foreground border-transparent hover:bg-muted/40'
+                    }`}
+                  >
+                    {r === 'keep' ? 'Keep this device’s version' : 'Use the backup’s version'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {backup.rejected.length > 0 && (
+            <p className="text-sm text-warning flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              {backup.rejected.length} record{backup.rejected.length !== 1 ? 's are' : ' is'} invalid and will be skipped.
+            </p>
+          )}
+
+          {backup.settings && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <Checkbox checked={includeSettings} onCheckedChange={v => setIncludeSettings(v === true)} />
+              Also restore settings ({[
+                `${backup.settings.timerProfiles.length} timer profile${backup.settings.timerProfiles.length !== 1 ? 's' : ''}`,
+                backup.settings.trashRetentionDays !== undefined && 'trash retention',
+                backup.settings.habitLockDays !== undefined && 'habit lock',
+                backup.settings.progressionRules && 'progression rules',
+              ].filter(Boolean).join(', ')})
+            </label>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => onImport(mode, resolution, includeSettings)}>
+            {mode === 'merge' ? 'Merge Backup' : 'Replace Data'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
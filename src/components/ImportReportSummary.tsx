@@ -0,0 +1,46 @@
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { CsvImportReport } from '@/lib/sessionCsv';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+// Dry-run counts and per-line problems shared by the import dialogs
+export function ImportReportSummary({ report }: { report: CsvImportReport }) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="glass-card p-2">
+          <p className="stat-value text-success">{report.ready.length}</p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Ready</p>
+        </div>
+        <div className="glass-card p-2">
+          <p className="stat-value text-muted-foreground">{report.duplicates.length}</p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Duplicates</p>
+        </div>
+        <div className="glass-card p-2">
+          <p className={`stat-value ${report.errors.length > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>{report.errors.length}</p>
+          <p className="text-[10px] text-muted-foreground uppercase tracking-wider">Errors</p>
+        </div>
+      </div>
+      <ScrollArea className="max-h-48 pr-3">
+        <ul className="space-y-1 text-xs">
+          {report.errors.map(e => (
+            <li key={`e-${e.row}`} className="flex items-start gap-2">
+              <XCircle className="w-3.5 h-3.5 text-destructive shrink-0 mt-0.5" />
+              <span><span className="font-mono text-muted-foreground">Line {e.row}</span> {e.message}</span>
+            </li>
+          ))}
+          {report.ready.filter(r => r.warnings.length > 0).map(r => (
+            <li key={`w-${r.row}`} className="flex items-start gap-2">
+              <AlertTriangle className="w-3.5 h-3.5 text-warning shrink-0 mt-0.5" />
+              <span><span className="font-mono text-muted-foreground">Line {r.row}</span> {r.warnings.join(' ')}</span>
+            </li>
+          ))}
+          {report.duplicates.map(d => (
+            <li key={`d-${d.row}`} className="text-muted-foreground">
+              <span className="font-mono">Line {d.row}</span> already imported ({d.id}), skipped.
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,19 +1,23 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { RotateCcw, Coffee, Brain, SkipForward, Volume2, VolumeX, Wind, Waves, TreePine, Plus, X, Zap } from 'lucide-react';
+import { RotateCcw, Coffee, Brain, SkipForward, Volume2, VolumeX, Wind, Waves, TreePine, Plus, X, Zap, SlidersHorizontal } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { TimerMode } from '@/lib/types';
+import { usePomodoroTimer } from '@/hooks/usePomodoroTimer';
+import { useTimerProfiles } from '@/hooks/useTimerProfiles';
+import { TimerProfilesDialog } from '@/components/TimerProfilesDialog';
 
-type TimerMode = 'work' | 'shortBreak' | 'longBreak';
 type AmbientSound = 'none' | 'rain' | 'forest' | 'waves';
 
 interface PomodoroTimerProps {
-  onSessionComplete?: (minutes: number) => void;
+  timer: ReturnType<typeof usePomodoroTimer>;
+  profiles: ReturnType<typeof useTimerProfiles>;
 }
 
-const MODE_CONFIG: Record<TimerMode, { label: string; minutes: number; icon: React.ReactNode }> = {
-  work: { label: 'Deep Focus', minutes: 25, icon: <Brain className="w-5 h-5" /> },
-  shortBreak: { label: 'Short Break', minutes: 5, icon: <Coffee className="w-5 h-5" /> },
-  longBreak: { label: 'Long Break', minutes: 15, icon: <Coffee className="w-5 h-5" /> },
+const MODE_CONFIG: Record<TimerMode, { label: string; icon: React.ReactNode }> = {
+  work: { label: 'Deep Focus', icon: <Brain className="w-5 h-5" /> },
+  shortBreak: { label: 'Short Break', icon: <Coffee className="w-5 h-5" /> },
+  longBreak: { label: 'Long Break', icon: <Coffee className="w-5 h-5" /> },
 };
 
 const AMBIENT_SOUNDS: { key: AmbientSound; label: string; icon: React.ReactNode }[] = [
@@ -59,23 +63,20 @@ function createAmbientNoise(ctx: AudioContext, type: AmbientSound): AudioNode |
   return source;
 }
 
-export function PomodoroTimer({ onSessionComplete }: PomodoroTimerProps) {
-  const [mode, setMode] = useState<TimerMode>('work');
-  const [timeLeft, setTimeLeft] = useState(MODE_CONFIG.work.minutes * 60);
-  const [isRunning, setIsRunning] = useState(false);
-  const [sessionsCompleted, setSessions] = useState(0);
-  const [totalFocusMinutes, setTotalFocusMinutes] = useState(0);
-  const [soundEnabled, setSoundEnabled] = useState(true);
+export function PomodoroTimer({ timer, profiles }: PomodoroTimerProps) {
+  const {
+    mode, isRunning, timeLeft, totalSeconds, sessionsCompleted, totalFocusMinutes,
+    currentTask, setCurrentTask, soundEnabled, setSoundEnabled,
+    toggle: toggleTimer, reset, skip, switchMode,
+  } = timer;
   const [ambientSound, setAmbientSound] = useState<AmbientSound>('none');
-  const [currentTask, setCurrentTask] = useState('');
   const [showTaskInput, setShowTaskInput] = useState(false);
-  const [dailyGoal] = useState(8); // 8 pomodoros
+  const [showProfiles, setShowProfiles] = useState(false);
+  const { dailyGoal, longBreakInterval } = profiles.activeProfile;
   const [breathePhase, setBreathePhase] = useState<'in' | 'hold' | 'out'>('in');
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const ambientRef = useRef<{ ctx: AudioContext; source: AudioNode } | null>(null);
 
   const config = MODE_CONFIG[mode];
-  const totalSeconds = config.minutes * 60;
   const progress = ((totalSeconds - timeLeft) / totalSeconds);
 
   // Breathing animation during breaks
@@ -110,58 +111,12 @@ export function PomodoroTimer({ onSessionComplete }: PomodoroTimerProps) {
     };
   }, [ambientSound, isRunning]);
 
-  const playSound = useCallback(() => {
-    if (!soundEnabled) return;
-    try {
-      const ctx = new AudioContext();
-      const osc = ctx.createOscillator();
-      const gain = ctx.createGain();
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-      osc.frequency.value = 800;
-      gain.gain.value = 0.3;
-      osc.start();
-      gain.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.5);
-      osc.stop(ctx.currentTime + 0.5);
-    } catch {}
-  }, [soundEnabled]);
-
-  const switchMode = useCallback((newMode: TimerMode) => {
-    setMode(newMode);
-    setTimeLeft(MODE_CONFIG[newMode].minutes * 60);
-    setIsRunning(false);
-  }, []);
-
-  useEffect(() => {
-    if (!isRunning) {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-      return;
-    }
-    intervalRef.current = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          setIsRunning(false);
-          playSound();
-          if (mode === 'work') {
-            const newCount = sessionsCompleted + 1;
-            setSessions(newCount);
-            setTotalFocusMinutes(p => p + MODE_CONFIG.work.minutes);
-            onSessionComplete?.(MODE_CONFIG.work.minutes);
-            const nextMode = newCount % 4 === 0 ? 'longBreak' : 'shortBreak';
-            setTimeout(() => switchMode(nextMode), 500);
-          } else {
-            setTimeout(() => switchMode('work'), 500);
-          }
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-    return () => { if (intervalRef.current) clearInterval(intervalRef.current); };
-  }, [isRunning, mode, sessionsCompleted, onSessionComplete, playSound, switchMode]);
-
-  const reset = () => { setIsRunning(false); setTimeLeft(totalSeconds); };
-  const toggleTimer = () => setIsRunning(!isRunning);
+  // Leaving the task label picks the profile bound to that subject, unless a phase is under way
+  const commitTask = () => {
+    setShowTaskInput(false);
+    const bound = profiles.getProfileForSubject(currentTask);
+    if (bound && !timer.isActive) profiles.selectProfile(bound.id);
+  };
 
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
@@ -195,6 +150,32 @@ export function PomodoroTimer({ onSessionComplete }: PomodoroTimerProps) {
         ))}
       </div>
 
+      {/* Timer Profile */}
+      <div className="glass-card p-1.5 flex items-center gap-1">
+        <div className="flex-1 flex gap-1 overflow-x-auto">
+          {profiles.profiles.map(p => (
+            <button
+              key={p.id}
+              onClick={() => profiles.selectProfile(p.id)}
+              className={`shrink-0 py-1.5 px-3 rounded-lg text-xs font-medium transition-all duration-300 ${
+                profiles.activeProfile.id === p.id
+                  ? 'bg-primary/20 text-primary'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+              }`}
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setShowProfiles(true)}
+          className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+      <TimerProfilesDialog profiles={profiles} open={showProfiles} onOpenChange={setShowProfiles} />
+
       {/* Task Label */}
       <div className="glass-card p-3">
         <AnimatePresence mode="wait">
@@ -210,11 +191,11 @@ export function PomodoroTimer({ onSessionComplete }: PomodoroTimerProps) {
                 autoFocus
                 value={currentTask}
                 onChange={e => setCurrentTask(e.target.value)}
-                onKeyDown={e => e.key === 'Enter' && setShowTaskInput(false)}
+                onKeyDown={e => e.key === 'Enter' && commitTask()}
                 placeholder="What are you working on?"
                 className="flex-1 bg-transparent border-b border-border/60 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary py-1 px-1"
               />
-              <button onClick={() => setShowTaskInput(false)}>
+              <button onClick={commitTask}>
                 <X className="w-4 h-4 text-muted-foreground hover:text-foreground" />
               </button>
             </motion.div>
@@ -342,6 +323,12 @@ export function PomodoroTimer({ onSessionComplete }: PomodoroTimerProps) {
           )}
         </div>
 
+        {timer.runsInOtherTab && (
+          <p className="mt-4 text-xs text-muted-foreground text-center">
+            Counting down in another tab, which will log the session when it ends.
+          </p>
+        )}
+
         {/* Breathing guide during breaks */}
         {mode !== 'work' && isRunning && (
           <motion.div
@@ -368,10 +355,7 @@ export function PomodoroTimer({ onSessionComplete }: PomodoroTimerProps) {
           <Button variant="outline" size="icon" onClick={reset} className="rounded-full w-11 h-11 border-border/50">
             <RotateCcw className="w-4 h-4" />
           </Button>
-          <Button variant="outline" size="icon" onClick={() => {
-            if (mode === 'work') switchMode('shortBreak');
-            else switchMode('work');
-          }} className="rounded-full w-11 h-11 border-border/50">
+          <Button variant="outline" size="icon" onClick={skip} className="rounded-full w-11 h-11 border-border/50">
             <SkipForward className="w-4 h-4" />
           </Button>
           <Button
@@ -472,9 +456,9 @@ export function PomodoroTimer({ onSessionComplete }: PomodoroTimerProps) {
               animate={{ scale: 1 }}
               transition={{ delay: i * 0.05, type: 'spring' }}
               className={`w-3 h-3 rounded-full ${
-                (i + 1) % 4 === 0 ? 'bg-success' : 'bg-primary'
+                (i + 1) % longBreakInterval === 0 ? 'bg-success' : 'bg-primary'
               }`}
-              style={{ boxShadow: `0 0 6px ${(i + 1) % 4 === 0 ? 'hsl(var(--success) / 0.5)' : 'hsl(var(--primary) / 0.4)'}` }}
+              style={{ boxShadow: `0 0 6px ${(i + 1) % longBreakInterval === 0 ? 'hsl(var(--success) / 0.5)' : 'hsl(var(--primary) / 0.4)'}` }}
             />
           ))}
         </motion.div>
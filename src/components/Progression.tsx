@@ -1,19 +1,34 @@
+import { useState } from 'react';
 import { motion } from 'framer-motion';
+import { addDays, format, parseISO } from 'date-fns';
 import { useStudyTracker } from '@/hooks/useStudyTracker';
-import { Target, TrendingUp, CheckCircle2, XCircle } from 'lucide-react';
+import { describeProgression, getWeekProgress } from '@/lib/progression';
+import { Target, TrendingUp, CheckCircle2, XCircle, History, Pencil, Settings2 } from 'lucide-react';
+import { ProgressionRulesDialog } from '@/components/ProgressionRulesDialog';
+import { TargetOverrideDialog } from '@/components/TargetOverrideDialog';
+import { Button } from '@/components/ui/button';
 
 interface ProgressionProps {
   tracker: ReturnType<typeof useStudyTracker>;
 }
 
 export function Progression({ tracker }: ProgressionProps) {
+  const [editingRules, setEditingRules] = useState(false);
+  const [overriding, setOverriding] = useState(false);
   const currentTarget = tracker.getCurrentWeekTarget();
-  const last7Days = tracker.getLast7DaysData();
-  const totalThisWeek = last7Days.reduce((s, d) => s + d.hours, 0);
-  const dailyAvgNeeded = Math.max(0, (currentTarget.targetHours * 7 - totalThisWeek) / Math.max(1, 7 - last7Days.filter(d => d.hours > 0).length || 1));
+  const progress = getWeekProgress(currentTarget, tracker.sessions);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const weekDays = Array.from({ length: 7 }, (_, i) => {
+    const date = format(addDays(parseISO(currentTarget.weekStart), i), 'yyyy-MM-dd');
+    return { date, label: format(parseISO(date), 'EEE'), hours: tracker.getDailyTotalHours(date) };
+  });
+  const pastWeeks = tracker.targets
+    .filter(t => t.closedAt)
+    .sort((a, b) => b.weekStart.localeCompare(a.weekStart));
 
-  const progressPercent = Math.min(100, Math.round((totalThisWeek / (currentTarget.targetHours * 7)) * 100));
-  const isOnTrack = progressPercent >= 50;
+  const progressPercent = progress.percent;
+  // On track while the rest of the week needs no more than the daily target
+  const isOnTrack = progress.neededPerDay <= currentTarget.targetHours;
 
   return (
     <div className="space-y-5">
@@ -23,10 +38,27 @@ export function Progression({ tracker }: ProgressionProps) {
         initial={{ opacity: 0, scale: 0.97 }}
         animate={{ opacity: 1, scale: 1 }}
       >
-        <div className="flex items-center gap-3 mb-4">
-          <Target className="w-6 h-6 text-primary" />
-          <h2 className="text-lg font-semibold">Weekly Target</h2>
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3">
+            <Target className="w-6 h-6 text-primary" />
+            <h2 className="text-lg font-semibold">Weekly Target</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setOverriding(true)} aria-label="Change this week's target">
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setEditingRules(true)} aria-label="Progression rules">
+              <Settings2 className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
+        {(currentTarget.overrideReason || currentTarget.deloadFrom !== undefined) && (
+          <p className="text-sm text-muted-foreground mb-4">
+            {currentTarget.overrideReason
+              ? `Set by hand from ${currentTarget.plannedHours}h: ${currentTarget.overrideReason}`
+              : `Deload week: lighter than the usual ${currentTarget.deloadFrom}h to recover.`}
+          </p>
+        )}
         <div className="grid grid-cols-3 gap-6 mb-4">
           <div className="text-center">
             <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Target / Day</p>
@@ -34,7 +66,7 @@ export function Progression({ tracker }: ProgressionProps) {
           </div>
           <div className="text-center">
             <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Achieved</p>
-            <p className="stat-value text-foreground">{Math.round(totalThisWeek * 10) / 10}h</p>
+            <p className="stat-value text-foreground">{progress.totalHours}h</p>
           </div>
           <div className="text-center">
             <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Status</p>
@@ -65,7 +97,7 @@ export function Progression({ tracker }: ProgressionProps) {
             }}
           />
         </div>
-        <p className="text-sm text-muted-foreground mt-2 text-center">{progressPercent}% of weekly goal</p>
+        <p className="text-sm text-muted-foreground mt-2 text-center">{progressPercent}% of the {progress.goalHours}h weekly goal</p>
       </motion.div>
 
       {/* Daily Breakdown */}
@@ -80,18 +112,18 @@ export function Progression({ tracker }: ProgressionProps) {
           <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">This Week's Breakdown</h3>
         </div>
         <div className="space-y-3">
-          {last7Days.map((day, i) => {
+          {weekDays.map((day, i) => {
             const target = currentTarget.targetHours;
             const percent = Math.min(100, Math.round((day.hours / target) * 100));
             return (
               <motion.div
-                key={day.fullDate}
+                key={day.date}
                 className="flex items-center gap-3"
                 initial={{ opacity: 0, x: -10 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: 0.2 + i * 0.05 }}
               >
-                <span className="w-10 text-sm font-mono text-muted-foreground">{day.date}</span>
+                <span className={`w-10 text-sm font-mono ${day.date === today ? 'text-primary' : 'text-muted-foreground'}`}>{day.label}</span>
                 <div className="flex-1 bg-muted/40 rounded-full h-6 relative overflow-hidden">
                   <motion.div
                     className="h-6 rounded-full flex items-center justify-end pr-2"
@@ -109,7 +141,7 @@ export function Progression({ tracker }: ProgressionProps) {
                     }}
                   >
                     {day.hours > 0 && (
-                      <span className="text-xs font-mono font-semibold text-primary-foreground">{day.hours}h</span>
+                      <span className="text-xs font-mono font-semibold text-primary-foreground">{Math.round(day.hours * 10) / 10}h</span>
                     )}
                   </motion.div>
                 </div>
@@ -120,6 +152,34 @@ export function Progression({ tracker }: ProgressionProps) {
         </div>
       </motion.div>
 
+      {/* Past Weeks */}
+      {pastWeeks.length > 0 && (
+        <motion.div
+          className="glass-card p-6"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <History className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Past Weeks</h3>
+          </div>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {pastWeeks.map(week => (
+              <div key={week.weekStart} className="flex items-center gap-3 text-sm">
+                {week.met ? <CheckCircle2 className="w-4 h-4 text-success shrink-0" /> : <XCircle className="w-4 h-4 text-destructive shrink-0" />}
+                <span className="flex-1 text-muted-foreground truncate" title={week.overrideReason}>
+                  Week of {format(parseISO(week.weekStart), 'MMM d, yyyy')}
+                  {week.deloadFrom !== undefined && ' · deload'}
+                  {week.overrideReason && ' · set by hand'}
+                </span>
+                <span className="font-mono">{week.actualHours}h / {week.targetHours}h a day</span>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* Progression Info */}
       <motion.div
         className="glass-card p-6"
@@ -129,17 +189,18 @@ export function Progression({ tracker }: ProgressionProps) {
       >
         <h3 className="font-semibold mb-3 text-sm text-muted-foreground uppercase tracking-wider">How Progression Works</h3>
         <div className="space-y-2 text-sm text-muted-foreground">
-          <p>• Your target starts at <span className="text-primary font-semibold">5 hours/day</span> and increases gradually.</p>
-          <p>• Each week, if you meet your target, it increases by <span className="text-primary font-semibold">30 minutes</span>.</p>
-          <p>• Maximum target is <span className="text-primary font-semibold">10 hours/day</span> of real deep work.</p>
+          {describeProgression(tracker.progressionRules).map(line => <p key={line}>• {line}</p>)}
           <p>• Only <span className="text-foreground font-semibold">focused study time</span> counts — no breaks, no distractions.</p>
-          {dailyAvgNeeded > 0 && (
+          {progress.neededPerDay > 0 && (
             <p className="text-foreground mt-3">
-              📊 To stay on track, aim for <span className="text-primary font-semibold font-mono">{Math.round(dailyAvgNeeded * 10) / 10}h/day</span> for the rest of this week.
+              📊 To meet this week's target, aim for <span className="text-primary font-semibold font-mono">{progress.neededPerDay}h/day</span> for the {progress.daysLeft} day{progress.daysLeft !== 1 ? 's' : ''} left.
             </p>
           )}
         </div>
       </motion.div>
+
+      <ProgressionRulesDialog tracker={tracker} open={editingRules} onOpenChange={setEditingRules} />
+      <TargetOverrideDialog tracker={tracker} open={overriding} onOpenChange={setOverriding} />
     </div>
   );
 }
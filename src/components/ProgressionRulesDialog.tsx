@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { DEFAULT_PROGRESSION_RULES, progressionRulesSchema } from '@/lib/progression';
+import { ProgressionRules } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface ProgressionRulesDialogProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type HourField = Exclude<keyof ProgressionRules, 'deloadEvery'>;
+
+const HOUR_FIELDS: { key: HourField; label: string }[] = [
+  { key: 'startHours', label: 'Starting target (h/day)' },
+  { key: 'increment', label: 'Increase after a met week (h)' },
+  { key: 'decrement', label: 'Decrease after a missed week (h)' },
+  { key: 'ceiling', label: 'Maximum target (h/day)' },
+];
+
+const DELOAD_OPTIONS: (number | null)[] = [null, 3, 4, 5, 6, 8];
+
+const FIELD_LABELS: Record<keyof ProgressionRules, string> = {
+  startHours: 'Starting target',
+  increment: 'Increase',
+  decrement: 'Decrease',
+  ceiling: 'Maximum',
+  deloadEvery: 'Deload week',
+};
+
+function toFields(rules: ProgressionRules): Record<HourField, string> {
+  return {
+    startHours: String(rules.startHours),
+    increment: String(rules.increment),
+    decrement: String(rules.decrement),
+    ceiling: String(rules.ceiling),
+  };
+}
+
+export function ProgressionRulesDialog({ tracker, open, onOpenChange }: ProgressionRulesDialogProps) {
+  const [fields, setFields] = useState(() => toFields(tracker.progressionRules));
+  const [deloadEvery, setDeloadEvery] = useState<number | null>(tracker.progressionRules.deloadEvery);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setFields(toFields(tracker.progressionRules));
+    setDeloadEvery(tracker.progressionRules.deloadEvery);
+    setError('');
+  }, [open, tracker.progressionRules]);
+
+  const handleSave = () => {
+    const parsed = progressionRulesSchema.safeParse({
+      startHours: Number(fields.startHours),
+      increment: Number(fields.increment),
+      decrement: Number(fields.decrement),
+      ceiling: Number(fields.ceiling),
+      deloadEvery,
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      setError(`${FIELD_LABELS[issue.path[0] as keyof ProgressionRules] ?? 'Rules'}: ${issue.message.toLowerCase()}`);
+      return;
+    }
+    tracker.updateProgressionRules(parsed.data as ProgressionRules);
+    onOpenChange(false);
+  };
+
+  const resetDefaults = () => {
+    setFields(toFields(DEFAULT_PROGRESSION_RULES));
+    setDeloadEvery(DEFAULT_PROGRESSION_RULES.deloadEvery);
+    setError('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle>Progression Rules</DialogTitle>
+          <DialogDescription>
+            How your daily target changes from week to week. Changes apply from next week; this week keeps its target.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {HOUR_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-3">
+              <label htmlFor={`rule-${key}`} className="text-sm text-muted-foreground">{label}</label>
+              <Input
+                id={`rule-${key}`}
+                type="number"
+                min="0"
+                step="0.5"
+                value={fields[key]}
+                onChange={e => setFields(f => ({ ...f, [key]: e.target.value }))}
+                className="w-24 text-right bg-muted/30 border-border/50"
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm text-muted-foreground">Deload week</span>
+            <Select value={String(deloadEvery ?? 'never')} onValueChange={v => setDeloadEvery(v === 'never' ? null : Number(v))}>
+              <SelectTrigger className="w-40 bg-muted/30 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELOAD_OPTIONS.map(weeks => (
+                  <SelectItem key={String(weeks)} value={String(weeks ?? 'never')}>
+                    {weeks === null ? 'Never' : `Every ${weeks} weeks`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={resetDefaults}>Reset to defaults</Button>
+          <Button onClick={handleSave}>Save Rules</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Eye, EyeOff, Trash2 } from 'lucide-react';
+import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { RELAPSE_MOODS, RELAPSE_TRIGGERS } from '@/lib/relapses';
+import { HabitDefinition, RelapseTrigger } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface RelapseDialogProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+  habit: HabitDefinition | null;
+  date: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Journal entries stay blurred until revealed, so a glance at the screen does not give them away
+export function RelapseDialog({ tracker, habit, date, onOpenChange }: RelapseDialogProps) {
+  const [time, setTime] = useState('');
+  const [trigger, setTrigger] = useState<RelapseTrigger>('boredom');
+  const [context, setContext] = useState('');
+  const [mood, setMood] = useState(3);
+  const [notes, setNotes] = useState('');
+  const [revealed, setRevealed] = useState(false);
+
+  useEffect(() => {
+    if (!habit) return;
+    const isToday = date === format(new Date(), 'yyyy-MM-dd');
+    setTime(isToday ? format(new Date(), 'HH:mm') : '');
+    setTrigger('boredom');
+    setContext('');
+    setMood(3);
+    setNotes('');
+    setRevealed(false);
+  }, [habit, date]);
+
+  if (!habit) return null;
+
+  const locked = tracker.isHabitDayLocked(date);
+  const relapses = [...(tracker.getHabitEntriesForDate(date)[habit.id]?.relapses ?? [])].sort((a, b) => a.time.localeCompare(b.time));
+  const hidden = revealed ? '' : 'blur-sm select-none';
+
+  const handleSave = () => {
+    if (!time) return;
+    tracker.addRelapse(habit.id, date, { time, trigger, context: context.trim(), mood, notes: notes.trim() });
+    setContext('');
+    setNotes('');
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle>{habit.icon} Relapse Journal</DialogTitle>
+          <DialogDescription>
+            {habit.label} on {format(parseISO(date), 'EEE, MMM d, yyyy')}. Writing down what happened helps spot what sets it off.
+            Logging a relapse marks the day as not done.
+          </DialogDescription>
+        </DialogHeader>
+
+        {relapses.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground uppercase tracking-wider">Logged</p>
+              <Button variant="ghost" size="sm" onClick={() => setRevealed(r => !r)}>
+                {revealed ? <EyeOff className="w-4 h-4 mr-1" /> : <Eye className="w-4 h-4 mr-1" />}
+                {revealed ? 'Hide' : 'Show'}
+              </Button>
+            </div>
+            {relapses.map(r => (
+              <div key={r.id} className="rounded-lg bg-muted/20 p-3 flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm">
+                    <span className="font-mono">{r.time}</span>
+                    <span className={`ml-2 ${hidden}`}>{RELAPSE_TRIGGERS[r.trigger]} · {RELAPSE_MOODS[r.mood - 1]}</span>
+                  </p>
+                  {(r.context || r.notes) && (
+                    <p className={`text-xs text-muted-foreground break-words ${hidden}`}>
+                      {[r.context, r.notes].filter(Boolean).join(' — ')}
+                    </p>
+                  )}
+                </div>
+                {!locked && (
+                  <Button variant="ghost" size="icon" onClick={() => tracker.removeRelapse(habit.id, date, r.id)} aria-label="Delete relapse">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {locked ? (
+          <p className="text-sm text-muted-foreground">This day is read-only.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                type="time"
+                value={time}
+                onChange={e => setTime(e.target.value)}
+                aria-label="Time"
+                className="bg-muted/30 border-border/50"
+              />
+              <Select value={trigger} onValueChange={v => setTrigger(v as RelapseTrigger)}>
+                <SelectTrigger className="bg-muted/30 border-border/50" aria-label="Trigger">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RELAPSE_TRIGGERS) as RelapseTrigger[]).map(t => (
+                    <SelectItem key={t} value={t}>{RELAPSE_TRIGGERS[t]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2">Mood Beforehand</p>
+              <div className="flex gap-1">
+                {RELAPSE_MOODS.map((emoji, i) => (
+                  <button
+                    key={emoji}
+                    onClick={() => setMood(i + 1)}
+                    aria-pressed={mood === i + 1}
+                    className={`flex-1 rounded-lg py-1 text-xl border transition-all ${
+                      mood === i + 1 ? 'bg-primary/15 border-primary/30' : 'border-transparent opacity-50 hover:opacity-100'
+                    }`}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Input
+              placeholder="Where were you, what was going on?"
+              value={context}
+              onChange={e => setContext(e.target.value)}
+              className="bg-muted/30 border-border/50"
+            />
+            <Textarea
+              placeholder="Notes (optional)"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              className="bg-muted/30 border-border/50 min-h-16"
+            />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Close</Button>
+          {!locked && <Button onClick={handleSave} disabled={!time}>Log Relapse</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { format, parseISO, setDay } from 'date-fns';
+import { Eye, EyeOff, NotebookPen } from 'lucide-react';
+import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { getRelapseStats, listRelapses, RELAPSE_MOODS, RELAPSE_TRIGGERS, TIMES_OF_DAY } from '@/lib/relapses';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface RelapseJournalProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+  onSelectDate: (date: string) => void;
+}
+
+const ALL_HABITS = 'all';
+const RECENT_COUNT = 5;
+// Monday first, using getDay numbering
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function CountBar({ label, count, max }: { label: string; count: number; max: number }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-24 shrink-0 text-muted-foreground truncate">{label}</span>
+      <div className="flex-1 bg-muted/40 rounded-full h-1.5 overflow-hidden">
+        <div className="h-1.5 rounded-full bg-destructive/70" style={{ width: `${max > 0 ? (count / max) * 100 : 0}%` }} />
+      </div>
+      <span className="w-6 text-right font-mono">{count}</span>
+    </div>
+  );
+}
+
+// Patterns across the relapse journal. Details stay blurred until revealed; only the total shows.
+export function RelapseJournal({ tracker, onSelectDate }: RelapseJournalProps) {
+  const [habitId, setHabitId] = useState(ALL_HABITS);
+  const [revealed, setRevealed] = useState(false);
+  const journalHabits = tracker.habits.filter(h => h.tracksRelapses);
+  const habitIds = useMemo(
+    () => (habitId === ALL_HABITS ? tracker.habits.filter(h => h.tracksRelapses).map(h => h.id) : [habitId]),
+    [tracker.habits, habitId],
+  );
+  const relapses = useMemo(() => listRelapses(tracker.habitEntries, habitIds), [tracker.habitEntries, habitIds]);
+  const stats = useMemo(() => getRelapseStats(relapses), [relapses]);
+
+  if (journalHabits.length === 0) return null;
+
+  const hidden = revealed ? '' : 'blur-sm select-none pointer-events-none';
+  const maxTrigger = Math.max(0, ...stats.triggers.map(t => t.count));
+  const maxTime = Math.max(0, ...stats.timesOfDay.map(t => t.count));
+  const maxWeekday = Math.max(0, ...stats.weekdays);
+  const habitsById = new Map(tracker.habits.map(h => [h.id, h]));
+
+  return (
+    <motion.div
+      className="glass-card p-6 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <NotebookPen className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Relapse Journal</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={habitId} onValueChange={setHabitId}>
+            <SelectTrigger className="w-44 h-8 bg-muted/30 border-border/50 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_HABITS}>All journaled habits</SelectItem>
+              {journalHabits.map(h => (
+                <SelectItem key={h.id} value={h.id}>{h.icon} {h.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={() => setRevealed(r => !r)} disabled={relapses.length === 0}>
+            {revealed ? <EyeOff className="w-4 h-4 mr-1" /> : <Eye className="w-4 h-4 mr-1" />}
+            {revealed ? 'Hide' : 'Show'}
+          </Button>
+        </div>
+      </div>
+
+      {relapses.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No relapses logged.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Logged</p>
+              <p className="font-mono font-semibold">{stats.total}</p>
+            </div>
+            <div className={hidden}>
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Top Trigger</p>
+              <p className="font-semibold truncate">{RELAPSE_TRIGGERS[stats.triggers[0].trigger]}</p>
+            </div>
+            <div className={hidden}>
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Avg Mood</p>
+              <p className="font-semibold">
+                {stats.averageMood !== null && `${RELAPSE_MOODS[Math.round(stats.averageMood) - 1]} ${stats.averageMood}`}
+              </p>
+            </div>
+          </div>
+
+          <div className={`grid md:grid-cols-2 gap-5 ${hidden}`}>
+            <div className="space-y-1.5">
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2">Triggers</p>
+              {stats.triggers.map(t => (
+                <CountBar key={t.trigger} label={RELAPSE_TRIGGERS[t.trigger]} count={t.count} max={maxTrigger} />
+              ))}
+            </div>
+            <div className="space-y-1.5">
+              <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2">Time of Day</p>
+              {stats.timesOfDay.map(t => (
+                <CountBar key={t.time} label={TIMES_OF_DAY.find(d => d.id === t.time)?.label ?? t.time} count={t.count} max={maxTime} />
+              ))}
+              <p className="text-xs text-muted-foreground uppercase tracking-wider pt-2 mb-2">Weekday</p>
+              {WEEKDAY_ORDER.map(d => (
+                <CountBar key={d} label={format(setDay(new Date(), d), 'EEEE')} count={stats.weekdays[d]} max={maxWeekday} />
+              ))}
+            </div>
+          </div>
+
+          <div className={`space-y-1 ${hidden}`}>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2">Recent</p>
+            {relapses.slice(0, RECENT_COUNT).map(r => (
+              <button
+                key={r.id}
+                onClick={() => onSelectDate(r.date)}
+                className="w-full flex items-center gap-3 rounded-lg px-2 py-1.5 text-left text-sm hover:bg-muted/40 transition-colors"
+              >
+                <span className="font-mono text-xs text-muted-foreground shrink-0">{format(parseISO(r.date), 'MMM d')} {r.time}</span>
+                <span className="shrink-0">{habitsById.get(r.habitId)?.icon}</span>
+                <span className="truncate">
+                  {RELAPSE_TRIGGERS[r.trigger]}{r.context && ` — ${r.context}`}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
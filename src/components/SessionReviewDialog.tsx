@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Brain } from 'lucide-react';
+import { EnergyLevel, PomodoroCompletion, SessionResult, StudySession } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+export interface SessionReview {
+  subject: string;
+  focusQuality: number;
+  distractionCount: number;
+  energyLevel: EnergyLevel;
+  notes: string;
+  merge: boolean;
+}
+
+interface SessionReviewDialogProps {
+  completion: PomodoroCompletion | null;
+  mergeCandidate?: StudySession;
+  onSave: (review: SessionReview) => SessionResult;
+  onDiscard: () => void;
+}
+
+const ENERGY_OPTIONS: { value: EnergyLevel; label: string }[] = [
+  { value: 'high', label: '⚡ High' },
+  { value: 'medium', label: '🔋 Medium' },
+  { value: 'low', label: '🪫 Low' },
+];
+
+export function SessionReviewDialog({ completion, mergeCandidate, onSave, onDiscard }: SessionReviewDialogProps) {
+  const [subject, setSubject] = useState('');
+  const [focusQuality, setFocusQuality] = useState(3);
+  const [distractionCount, setDistractionCount] = useState('0');
+  const [energyLevel, setEnergyLevel] = useState<EnergyLevel>('medium');
+  const [notes, setNotes] = useState('');
+  const [merge, setMerge] = useState(true);
+  const [error, setError] = useState('');
+
+  // Reset the form for every new completion in the queue
+  useEffect(() => {
+    if (!completion) return;
+    setSubject(completion.task);
+    setFocusQuality(3);
+    setDistractionCount('0');
+    setEnergyLevel(mergeCandidate?.energyLevel ?? 'medium');
+    setNotes('');
+    setMerge(true);
+    setError('');
+  }, [completion, mergeCandidate]);
+
+  if (!completion) return null;
+
+  const canMerge = !!mergeCandidate && mergeCandidate.subject.trim().toLowerCase() === subject.trim().toLowerCase();
+
+  const handleSave = () => {
+    if (!subject.trim()) return;
+    const result = onSave({
+      subject: subject.trim(),
+      focusQuality,
+      distractionCount: Math.max(0, parseInt(distractionCount) || 0),
+      energyLevel,
+      notes,
+      merge: canMerge && merge,
+    });
+    setError('error' in result ? result.error : '');
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onDiscard()}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Brain className="w-5 h-5 text-primary" /> Pomodoro complete
+          </DialogTitle>
+          <DialogDescription>
+            {completion.minutes}m of focus · {format(completion.startedAt, 'HH:mm')} → {format(completion.endedAt, 'HH:mm')}. How did it go?
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            autoFocus
+            placeholder="Subject / Task"
+            value={subject}
+            onChange={e => setSubject(e.target.value)}
+            className="bg-muted/30 border-border/50"
+          />
+
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider mb-2">Focus Quality</p>
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map(n => (
+                <button
+                  key={n}
+                  onClick={() => setFocusQuality(n)}
+                  className={`text-2xl transition-colors ${n <= focusQuality ? 'text-primary' : 'text-muted-foreground/40 hover:text-muted-foreground'}`}
+                >
+                  ★
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="relative">
+              <Input
+                type="number"
+                min="0"
+                value={distractionCount}
+                onChange={e => setDistractionCount(e.target.value)}
+                className="bg-muted/30 border-border/50"
+              />
+              <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">Distractions</span>
+            </div>
+            <div className="flex gap-1">
+              {ENERGY_OPTIONS.map(opt => (
+                <button
+                  key={opt.value}
+                  onClick={() => setEnergyLevel(opt.value)}
+                  className={`flex-1 rounded-lg text-xs font-medium border transition-all ${
+                    energyLevel === opt.value
+                      ? 'bg-primary/15 text-primary border-primary/30'
+                      : 'text-muted-foreground border-transparent hover:bg-muted/40'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Input
+            placeholder="Notes (optional)"
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            className="bg-muted/30 border-border/50"
+          />
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {canMerge && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <Checkbox checked={merge} onCheckedChange={v => setMerge(v === true)} />
+              Merge into previous session ({mergeCandidate.startTime} → {mergeCandidate.endTime})
+            </label>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onDiscard}>Discard</Button>
+          <Button onClick={handleSave} disabled={!subject.trim()}>Log Session</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
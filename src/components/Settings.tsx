@@ -0,0 +1,294 @@
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ArrowDownToLine, Download, FileSpreadsheet, HardDriveDownload, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/sonner';
+import { HABIT_LOCK_OPTIONS, TRASH_RETENTION_OPTIONS, useStudyTracker } from '@/hooks/useStudyTracker';
+import { useTimerProfiles } from '@/hooks/useTimerProfiles';
+import { ImportBackupDialog } from '@/components/ImportBackupDialog';
+import { CsvImportDialog } from '@/components/CsvImportDialog';
+import { ExternalExport, ExternalImportDialog } from '@/components/ExternalImportDialog';
+import { TrashBin } from '@/components/TrashBin';
+import { applyBackup, BackupSettings, createBackup, ConflictResolution, ImportMode, parseBackup, ParsedBackup } from '@/lib/backup';
+import { downloadFile } from '@/lib/download';
+import { parseCsv } from '@/lib/csv';
+import { filterSessions, sessionsToCsv } from '@/lib/sessionCsv';
+import { detectImporter, IMPORTERS } from '@/lib/importers';
+
+interface SettingsProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+  timerProfiles: ReturnType<typeof useTimerProfiles>;
+}
+
+export function Settings({ tracker, timerProfiles }: SettingsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [importError, setImportError] = useState('');
+  const csvInput = useRef<HTMLInputElement>(null);
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [csvError, setCsvError] = useState('');
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exportSubjects, setExportSubjects] = useState<string[]>([]);
+  const externalInput = useRef<HTMLInputElement>(null);
+  const [externalExport, setExternalExport] = useState<ExternalExport | null>(null);
+  const [externalError, setExternalError] = useState('');
+
+  const currentData = useMemo(
+    // Backups keep the trash too, so a restore brings it back as it was
+    () => ({
+      sessions: [...tracker.sessions, ...tracker.trash],
+      habitDefinitions: tracker.habits,
+      habitEntries: tracker.habitEntries,
+      targets: tracker.targets,
+    }),
+    [tracker.sessions, tracker.trash, tracker.habits, tracker.habitEntries, tracker.targets],
+  );
+
+  const currentSettings = (): BackupSettings => ({
+    timerProfiles: timerProfiles.profiles,
+    activeTimerProfileId: timerProfiles.activeProfile.id,
+    trashRetentionDays: tracker.trashRetentionDays,
+    habitLockDays: tracker.habitLockDays,
+    progressionRules: tracker.progressionRules,
+  });
+
+  const applySettings = (settings: BackupSettings) => {
+    timerProfiles.restoreProfiles(settings.timerProfiles, settings.activeTimerProfileId);
+    // Values this version no longer offers keep the current setting
+    if (settings.trashRetentionDays !== undefined && TRASH_RETENTION_OPTIONS.includes(settings.trashRetentionDays)) {
+      tracker.updateTrashRetention(settings.trashRetentionDays);
+    }
+    if (settings.habitLockDays !== undefined && HABIT_LOCK_OPTIONS.includes(settings.habitLockDays)) {
+      tracker.updateHabitLock(settings.habitLockDays);
+    }
+    if (settings.progressionRules) tracker.updateProgressionRules(settings.progressionRules);
+  };
+
+  const handleExport = () => {
+    const backup = createBackup(currentData, currentSettings());
+    downloadFile(`deepwork-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    if ('error' in result) {
+      setImportError(result.error);
+      return;
+    }
+    setImportError('');
+    setPendingImport(result);
+  };
+
+  const handleImport = (mode: ImportMode, resolution: ConflictResolution, includeSettings: boolean) => {
+    if (!pendingImport) return;
+    tracker.replaceData(applyBackup(currentData, pendingImport.data, mode, resolution));
+    // Settings live outside the undo history, so Undo puts back this copy of them
+    const previousSettings = includeSettings && pendingImport.settings ? currentSettings() : null;
+    if (includeSettings && pendingImport.settings) applySettings(pendingImport.settings);
+    toast(mode === 'replace' ? 'Backup restored' : 'Backup merged into your history', {
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          tracker.undo();
+          if (previousSettings) applySettings(previousSettings);
+        },
+      },
+    });
+    setPendingImport(null);
+  };
+
+  const subjects = useMemo(() => [...new Set(tracker.sessions.map(s => s.subject))].sort(), [tracker.sessions]);
+  const exportCount = filterSessions(tracker.sessions, { from: exportFrom, to: exportTo, subjects: exportSubjects }).length;
+
+  const handleCsvExport = () => {
+    const selected = filterSessions(tracker.sessions, { from: exportFrom, to: exportTo, subjects: exportSubjects });
+    downloadFile(`deepwork-sessions-${format(new Date(), 'yyyy-MM-dd')}.csv`, sessionsToCsv(selected), 'text/csv');
+  };
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      setCsvError('This file has no data rows.');
+      return;
+    }
+    setCsvError('');
+    setCsvRows(rows);
+  };
+
+  const handleExternalFile = async (file: File | undefined) => {
+    if (!file) return;
+    const rows = parseCsv(await file.text());
+    const importer = rows.length > 0 ? detectImporter(rows[0]) : null;
+    if (!importer) {
+      setExternalError(`Not a recognised ${IMPORTERS.map(i => i.name).join(', ')} export.`);
+      return;
+    }
+    if (rows.length < 2) {
+      setExternalError('This export has no entries.');
+      return;
+    }
+    setExternalError('');
+    setExternalExport({ importer, rows });
+  };
+
+  const toggleSubject = (subject: string) => {
+    setExportSubjects(prev => prev.includes(subject) ? prev.filter(s => s !== subject) : [...prev, subject]);
+  };
+
+  return (
+    <div className="space-y-5">
+      <motion.div
+        className="glass-card p-6 space-y-4"
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <div className="flex items-center gap-3">
+          <HardDriveDownload className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">Backup</h2>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Your history only lives in this browser. Export a backup file to keep a copy or move it to another device.
+          Backups include sessions, the trash, habits, weekly targets and your settings: timer profiles, trash retention, the habit lock and progression rules.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleExport} disabled={!tracker.isLoaded} className="gap-2">
+            <Download className="w-4 h-4" /> Export Backup
+          </Button>
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={!tracker.isLoaded} className="gap-2">
+            <Upload className="w-4 h-4" /> Import Backup
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {importError && <p className="text-sm text-destructive">{importError}</p>}
+      </motion.div>
+
+      <motion.div
+        className="glass-card p-6 space-y-4"
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.08 }}
+      >
+        <div className="flex items-center gap-3">
+          <FileSpreadsheet className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">Sessions CSV</h2>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Export sessions for a spreadsheet, or import sessions logged elsewhere.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="relative">
+            <Input type="date" value={exportFrom} onChange={e => setExportFrom(e.target.value)} className="bg-muted/30 border-border/50" />
+            <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">From</span>
+          </div>
+          <div className="relative">
+            <Input type="date" value={exportTo} onChange={e => setExportTo(e.target.value)} className="bg-muted/30 border-border/50" />
+            <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">To</span>
+          </div>
+        </div>
+        {subjects.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {subjects.map(subject => (
+              <button
+                key={subject}
+                onClick={() => toggleSubject(subject)}
+                className={`px-2.5 py-1 rounded-full text-xs border transition-all ${
+                  exportSubjects.includes(subject)
+                    ? 'bg-primary/15 text-primary border-primary/30'
+                    : 'text-muted-foreground border-border/50 hover:bg-muted/40'
+                }`}
+              >
+                {subject}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleCsvExport} disabled={exportCount === 0} className="gap-2">
+            <Download className="w-4 h-4" /> Export {exportCount} Session{exportCount !== 1 ? 's' : ''}
+          </Button>
+          <Button variant="outline" onClick={() => csvInput.current?.click()} disabled={!tracker.isLoaded} className="gap-2">
+            <Upload className="w-4 h-4" /> Import CSV
+          </Button>
+          <input
+            ref={csvInput}
+            type="file"
+            accept="text/csv,.csv"
+            className="hidden"
+            onChange={e => {
+              handleCsvFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {csvError && <p className="text-sm text-destructive">{csvError}</p>}
+      </motion.div>
+
+      <motion.div
+        className="glass-card p-6 space-y-4"
+        initial={{ opacity: 0, y: 12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.16 }}
+      >
+        <div className="flex items-center gap-3">
+          <ArrowDownToLine className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">Import from Other Apps</h2>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Bring in history from a Toggl Track or Clockify detailed report, or a Forest CSV export.
+          Projects become subjects and tags go into notes.
+        </p>
+        <Button variant="outline" onClick={() => externalInput.current?.click()} disabled={!tracker.isLoaded} className="gap-2">
+          <Upload className="w-4 h-4" /> Choose Export File
+        </Button>
+        <input
+          ref={externalInput}
+          type="file"
+          accept="text/csv,.csv"
+          className="hidden"
+          onChange={e => {
+            handleExternalFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        {externalError && <p className="text-sm text-destructive">{externalError}</p>}
+      </motion.div>
+
+      <TrashBin tracker={tracker} />
+
+      <ImportBackupDialog
+        backup={pendingImport}
+        current={currentData}
+        onImport={handleImport}
+        onClose={() => setPendingImport(null)}
+      />
+
+      <CsvImportDialog
+        rows={csvRows}
+        sessions={tracker.allSessions}
+        onImport={inputs => tracker.addSessions(inputs, { confirmWarnings: true })}
+        onClose={() => setCsvRows(null)}
+      />
+
+      <ExternalImportDialog
+        file={externalExport}
+        sessions={tracker.allSessions}
+        onImport={inputs => tracker.addSessions(inputs, { confirmWarnings: true })}
+        onClose={() => setExternalExport(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { MAX_TARGET_HOURS, MIN_TARGET_HOURS } from '@/lib/progression';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface TargetOverrideDialogProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TargetOverrideDialog({ tracker, open, onOpenChange }: TargetOverrideDialogProps) {
+  const current = tracker.getCurrentWeekTarget();
+  const [hours, setHours] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setHours(String(current.targetHours));
+    setReason(current.overrideReason ?? '');
+    setError('');
+  }, [open]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleSave = () => {
+    const value = Number(hours);
+    if (hours.trim() === '' || isNaN(value) || value < MIN_TARGET_HOURS || value > MAX_TARGET_HOURS) {
+      setError(`Enter a target between ${MIN_TARGET_HOURS} and ${MAX_TARGET_HOURS} hours a day.`);
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Add a reason, so you know later why this week was different.');
+      return;
+    }
+    tracker.overrideWeekTarget(Math.round(value * 10) / 10, reason.trim());
+    onOpenChange(false);
+  };
+
+  const handleRestore = () => {
+    tracker.clearWeekTargetOverride();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle>Change This Week's Target</DialogTitle>
+          <DialogDescription>
+            For weeks that are different, like exams, travel or illness. Meeting it still counts, and next week carries on from the planned target.
+            {current.plannedHours !== undefined && ` Progression had planned ${current.plannedHours}h a day.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="override-hours" className="text-sm text-muted-foreground">Target (h/day)</label>
+            <Input
+              id="override-hours"
+              type="number"
+              min={MIN_TARGET_HOURS}
+              max={MAX_TARGET_HOURS}
+              step="0.5"
+              value={hours}
+              onChange={e => setHours(e.target.value)}
+              className="w-24 text-right bg-muted/30 border-border/50"
+            />
+          </div>
+          <Input
+            placeholder="Reason, e.g. exam week"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSave()}
+            className="bg-muted/30 border-border/50"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {current.plannedHours !== undefined && (
+            <Button variant="ghost" onClick={handleRestore}>Restore {current.plannedHours}h</Button>
+          )}
+          <Button onClick={handleSave}>Save Target</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
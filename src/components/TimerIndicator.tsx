@@ -0,0 +1,31 @@
+import { motion } from 'framer-motion';
+import { Brain, Coffee, Pause } from 'lucide-react';
+import { usePomodoroTimer } from '@/hooks/usePomodoroTimer';
+
+interface TimerIndicatorProps {
+  timer: ReturnType<typeof usePomodoroTimer>;
+  onClick: () => void;
+}
+
+export function TimerIndicator({ timer, onClick }: TimerIndicatorProps) {
+  if (!timer.isActive) return null;
+
+  const minutes = Math.floor(timer.timeLeft / 60);
+  const seconds = timer.timeLeft % 60;
+  const Icon = !timer.isRunning ? Pause : timer.mode === 'work' ? Brain : Coffee;
+
+  return (
+    <motion.button
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      onClick={onClick}
+      title={timer.currentTask || 'Open timer'}
+      className="glass-card px-3 py-1.5 flex items-center gap-2 hover:border-primary/40 transition-colors"
+    >
+      <Icon className={`w-3.5 h-3.5 ${timer.isRunning ? 'text-primary' : 'text-muted-foreground'}`} />
+      <span className={`font-mono font-semibold text-sm ${timer.isRunning ? 'text-foreground' : 'text-muted-foreground'}`}>
+        {String(minutes).padStart(2, '0')}:{String(seconds).padStart(2, '0')}
+      </span>
+    </motion.button>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { TimerProfile } from '@/lib/types';
+import { useTimerProfiles } from '@/hooks/useTimerProfiles';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface TimerProfilesDialogProps {
+  profiles: ReturnType<typeof useTimerProfiles>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ProfileDraft = Omit<TimerProfile, 'id' | 'subjects'> & { id?: string; subjects: string };
+
+const NUMBER_FIELDS: { key: 'workMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'longBreakInterval' | 'dailyGoal'; label: string }[] = [
+  { key: 'workMinutes', label: 'Focus (min)' },
+  { key: 'shortBreakMinutes', label: 'Short break (min)' },
+  { key: 'longBreakMinutes', label: 'Long break (min)' },
+  { key: 'longBreakInterval', label: 'Long break every' },
+  { key: 'dailyGoal', label: 'Daily goal' },
+];
+
+function toDraft(profile: TimerProfile): ProfileDraft {
+  return { ...profile, subjects: profile.subjects.join(', ') };
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakInterval: 4,
+  autoStartNext: false,
+  dailyGoal: 8,
+  subjects: '',
+};
+
+export function TimerProfilesDialog({ profiles, open, onOpenChange }: TimerProfilesDialogProps) {
+  const [draft, setDraft] = useState<ProfileDraft>(() => toDraft(profiles.activeProfile));
+
+  useEffect(() => {
+    if (open) setDraft(toDraft(profiles.activeProfile));
+  }, [open]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const isValid = draft.name.trim() !== '' && NUMBER_FIELDS.every(f => Number.isInteger(draft[f.key]) && draft[f.key] >= 1);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const id = profiles.saveProfile({
+      ...draft,
+      name: draft.name.trim(),
+      subjects: draft.subjects.split(',').map(s => s.trim()).filter(Boolean),
+    });
+    profiles.selectProfile(id);
+    onOpenChange(false);
+  };
+
+  const handleDelete = () => {
+    if (!draft.id) return;
+    profiles.deleteProfile(draft.id);
+    const fallback = profiles.profiles.find(p => p.id !== draft.id);
+    if (fallback) {
+      profiles.selectProfile(fallback.id);
+      setDraft(toDraft(fallback));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/50">
+        <DialogHeader>
+          <DialogTitle>Timer Profiles</DialogTitle>
+          <DialogDescription>Cycle lengths and goals. Bind subjects to pick a profile automatically from the task label.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1.5 flex-wrap">
+          {profiles.profiles.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setDraft(toDraft(p))}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                draft.id === p.id
+                  ? 'bg-primary/15 text-primary border-primary/30'
+                  : 'text-muted-foreground border-border/50 hover:text-foreground'
+              }`}
+            >
+              {p.name}
+            </button>
+          ))}
+          <button
+            onClick={() => setDraft(EMPTY_DRAFT)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border flex items-center gap-1 ${
+              !draft.id ? 'bg-primary/15 text-primary border-primary/30' : 'text-muted-foreground border-dashed border-border/60 hover:text-foreground'
+            }`}
+          >
+            <Plus className="w-3 h-3" /> New
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <Input
+            placeholder="Profile name"
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            className="bg-muted/30 border-border/50"
+          />
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {NUMBER_FIELDS.map(f => (
+              <div key={f.key} className="relative">
+                <Input
+                  type="number"
+                  min="1"
+                  value={draft[f.key]}
+                  onChange={e => setDraft({ ...draft, [f.key]: parseInt(e.target.value) || 0 })}
+                  className="bg-muted/30 border-border/50"
+                />
+                <span className="absolute -top-2 left-2 text-[10px] text-muted-foreground bg-card px-1">{f.label}</span>
+              </div>
+            ))}
+          </div>
+          <Input
+            placeholder="Bound subjects, comma separated"
+            value={draft.subjects}
+            onChange={e => setDraft({ ...draft, subjects: e.target.value })}
+            className="bg-muted/30 border-border/50"
+          />
+          <label className="flex items-center justify-between text-sm text-muted-foreground">
+            Auto-start next phase
+            <Switch checked={draft.autoStartNext} onCheckedChange={autoStartNext => setDraft({ ...draft, autoStartNext })} />
+          </label>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {draft.id && profiles.profiles.length > 1 && (
+            <Button variant="ghost" onClick={handleDelete} className="text-destructive hover:text-destructive sm:mr-auto">
+              <Trash2 className="w-4 h-4 mr-2" /> Delete
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!isValid}>Save & Use</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
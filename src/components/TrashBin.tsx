@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStudyTracker, TRASH_RETENTION_OPTIONS } from '@/hooks/useStudyTracker';
+
+interface TrashBinProps {
+  tracker: ReturnType<typeof useStudyTracker>;
+}
+
+export function TrashBin({ tracker }: TrashBinProps) {
+  const { trash } = tracker;
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleRestore = (id: string) => {
+    const result = tracker.restoreSession(id);
+    setErrors(prev => {
+      const { [id]: _previous, ...rest } = prev;
+      return 'error' in result ? { ...rest, [id]: result.error } : rest;
+    });
+  };
+
+  return (
+    <motion.div
+      className="glass-card p-6 space-y-4"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.24 }}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Trash2 className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold">Trash</h2>
+          {trash.length > 0 && <span className="text-xs font-mono text-muted-foreground">{trash.length}</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Keep for</span>
+          <Select value={String(tracker.trashRetentionDays)} onValueChange={v => tracker.updateTrashRetention(Number(v))}>
+            <SelectTrigger className="h-8 w-24 text-xs bg-muted/30 border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {trash.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Deleted sessions stay here for {tracker.trashRetentionDays} days before they are removed for good.</p>
+      ) : (
+        <>
+          <ScrollArea className="max-h-72 pr-3">
+            <div className="space-y-2">
+              {trash.map(session => (
+                <div key={session.id} className="rounded-lg border border-border/50 p-3 space-y-1">
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{session.subject}</p>
+                      <p className="text-xs font-mono text-muted-foreground">
+                        {session.date} · {session.startTime} → {session.endTime} · deleted {formatDistanceToNow(parseISO(session.deletedAt!), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRestore(session.id)} className="gap-1.5">
+                      <RotateCcw className="w-3.5 h-3.5" /> Restore
+                    </Button>
+                    <button
+                      onClick={() => tracker.purgeSessions([session.id])}
+                      className="text-muted-foreground hover:text-destructive transition-colors"
+                      aria-label="Delete permanently"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {errors[session.id] && <p className="text-xs text-destructive">{errors[session.id]}</p>}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <div className="flex justify-end">
+            <Button variant="ghost" size="sm" onClick={() => tracker.purgeSessions(trash.map(s => s.id))} className="text-destructive hover:text-destructive">
+              Empty Trash
+            </Button>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { format } from 'date-fns';
+import { PomodoroCompletion, TimerMode, TimerProfile } from '@/lib/types';
+import { createCountdown, getRemainingMs } from '@/lib/countdown';
+import { DEFAULT_PROFILES, nextBreakMode, phaseMinutes } from '@/lib/timerProfiles';
+import { TAB_ID } from '@/lib/sync';
+
+const TIMER_KEY = 'deepwork-timer';
+// How long other tabs wait for the owning tab to complete a phase before taking over
+const OWNER_GRACE_MS = 5_000;
+
+interface TimerState {
+  mode: TimerMode;
+  // Absolute wall-clock end of the running phase; null while paused or idle
+  endsAt: number | null;
+  // Remaining time while paused or idle
+  remainingMs: number;
+  // Full length of the current phase, fixed when the phase begins
+  phaseMs: number;
+  workStartedAt: number | null;
+  sessionsCompleted: number;
+  totalFocusMinutes: number;
+  statsDate: string;
+  currentTask: string;
+  soundEnabled: boolean;
+  // Tab that completes the running phase, so only one tab logs it and chimes
+  ownerId: string | null;
+  // Finished pomodoros waiting to be reviewed and logged, oldest first. Stored with the
+  // rest of the timer so a reload or a closed tab does not lose them.
+  pendingReviews: PomodoroCompletion[];
+  // Session the last reviewed pomodoro was logged as, which the next one can merge into
+  lastLoggedSessionId: string | null;
+}
+
+function todayKey() {
+  return format(new Date(), 'yyyy-MM-dd');
+}
+
+function initialState(): TimerState {
+  return {
+    mode: 'work',
+    endsAt: null,
+    remainingMs: DEFAULT_PROFILES[0].workMinutes * 60_000,
+    phaseMs: DEFAULT_PROFILES[0].workMinutes * 60_000,
+    workStartedAt: null,
+    sessionsCompleted: 0,
+    totalFocusMinutes: 0,
+    statsDate: todayKey(),
+    currentTask: '',
+    soundEnabled: true,
+    ownerId: null,
+    pendingReviews: [],
+    lastLoggedSessionId: null,
+  };
+}
+
+function readStoredState(): TimerState | null {
+  const data = localStorage.getItem(TIMER_KEY);
+  return data ? { ...initialState(), ...JSON.parse(data) } : null;
+}
+
+function loadTimerState(): TimerState {
+  try {
+    const state = readStoredState();
+    if (!state) return initialState();
+    // Daily counters start over on a new day
+    if (state.statsDate !== todayKey()) {
+      return { ...state, sessionsCompleted: 0, totalFocusMinutes: 0, statsDate: todayKey() };
+    }
+    return state;
+  } catch {
+    return initialState();
+  }
+}
+
+function playChime() {
+  try {
+    const ctx = new AudioContext();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    osc.frequency.value = 800;
+    gain.gain.value = 0.3;
+    osc.start();
+    gain.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.5);
+    osc.stop(ctx.currentTime + 0.5);
+  } catch {
+    // Audio is best-effort; some browsers block it without a user gesture
+  }
+}
+
+interface UsePomodoroTimerOptions {
+  profile: TimerProfile;
+}
+
+export function usePomodoroTimer({ profile }: UsePomodoroTimerOptions) {
+  const [state, setState] = useState<TimerState>(loadTimerState);
+  const [now, setNow] = useState(() => Date.now());
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // State just received from another tab, which must not be echoed back
+  const receivedRef = useRef<TimerState | null>(null);
+
+  useEffect(() => {
+    if (state === receivedRef.current) return;
+    localStorage.setItem(TIMER_KEY, JSON.stringify(state));
+  }, [state]);
+
+  // Every tab shows the same timer; changes made in one tab arrive here as storage events
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== TIMER_KEY || !event.newValue) return;
+      try {
+        const received: TimerState = { ...initialState(), ...JSON.parse(event.newValue) };
+        receivedRef.current = received;
+        setState(received);
+      } catch {
+        // Ignore state we can't read
+      }
+    };
+    // Hand the running phase over to the other tabs when this one closes
+    const release = () => {
+      if (stateRef.current.ownerId !== TAB_ID) return;
+      localStorage.setItem(TIMER_KEY, JSON.stringify({ ...stateRef.current, ownerId: null }));
+    };
+    window.addEventListener('storage', onStorage);
+    window.addEventListener('pagehide', release);
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      window.removeEventListener('pagehide', release);
+    };
+  }, []);
+
+  const isRunning = state.endsAt !== null;
+  const remainingMs = isRunning ? getRemainingMs(state.endsAt, now) : state.remainingMs;
+
+  useEffect(() => {
+    if (state.endsAt === null) return;
+    const endsAt = state.endsAt;
+    return createCountdown({
+      endsAt,
+      onTick: () => setNow(Date.now()),
+      onComplete: () => setNow(Math.max(Date.now(), endsAt)),
+    });
+  }, [state.endsAt]);
+
+  // A new profile applies straight away to a phase that has not started yet
+  useEffect(() => {
+    setState(prev => {
+      if (prev.endsAt !== null || prev.remainingMs !== prev.phaseMs) return prev;
+      const phaseMs = phaseMinutes(profile, prev.mode) * 60_000;
+      return phaseMs === prev.phaseMs ? prev : { ...prev, phaseMs, remainingMs: phaseMs };
+    });
+  }, [profile]);
+
+  // Completes the running phase once its end timestamp has passed, even if that
+  // happened while the page was closed. With auto-start the next phase is chained
+  // from the scheduled end, unless that one has already ended too: then nobody was
+  // there for it, so the timer stops instead of logging pomodoros no one worked.
+  useEffect(() => {
+    if (state.endsAt === null || state.endsAt > now) return;
+    const endedAt = state.endsAt;
+
+    // Only the owning tab completes a phase; the others wait in case it is merely throttled
+    const overdueMs = Date.now() - endedAt;
+    if (state.ownerId !== null && state.ownerId !== TAB_ID && overdueMs < OWNER_GRACE_MS) {
+      const timeout = setTimeout(() => setNow(Date.now()), OWNER_GRACE_MS - overdueMs);
+      return () => clearTimeout(timeout);
+    }
+    // Another tab may already have completed it without its storage event arriving yet
+    try {
+      if (readStoredState()?.endsAt !== endedAt) return;
+    } catch {
+      // Unreadable stored state: complete the phase here
+    }
+    localStorage.setItem(TIMER_KEY, JSON.stringify({ ...state, ownerId: TAB_ID }));
+
+    const current = profileRef.current;
+    // Don't chime for phases that ended long ago while the app was closed
+    if (state.soundEnabled && Date.now() - endedAt < 60_000) playChime();
+
+    setState(prev => {
+      if (prev.endsAt !== endedAt) return prev;
+      const fresh = prev.statsDate === todayKey() ? prev : { ...prev, sessionsCompleted: 0, totalFocusMinutes: 0, statsDate: todayKey() };
+      const wasWork = prev.mode === 'work';
+      // The counters are today's, so a phase that ended on an earlier day adds nothing to them
+      const credited = wasWork && format(endedAt, 'yyyy-MM-dd') === todayKey();
+      const sessionsCompleted = credited ? fresh.sessionsCompleted + 1 : fresh.sessionsCompleted;
+      const nextMode: TimerMode = wasWork ? nextBreakMode(current, fresh.sessionsCompleted + 1) : 'work';
+      const phaseMs = phaseMinutes(current, nextMode) * 60_000;
+      const completion: PomodoroCompletion = {
+        task: prev.currentTask.trim(),
+        minutes: Math.round(prev.phaseMs / 60_000),
+        startedAt: prev.workStartedAt ?? endedAt - prev.phaseMs,
+        endedAt,
+      };
+      const chain = current.autoStartNext && endedAt + phaseMs > Date.now();
+      return {
+        ...fresh,
+        mode: nextMode,
+        endsAt: chain ? endedAt + phaseMs : null,
+        remainingMs: phaseMs,
+        phaseMs,
+        workStartedAt: chain && nextMode === 'work' ? endedAt : null,
+        sessionsCompleted,
+        totalFocusMinutes: credited ? fresh.totalFocusMinutes + Math.round(prev.phaseMs / 60_000) : fresh.totalFocusMinutes,
+        ownerId: TAB_ID,
+        pendingReviews: wasWork ? [...fresh.pendingReviews, completion] : fresh.pendingReviews,
+      };
+    });
+  }, [state, now]);
+
+  const start = useCallback(() => {
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setState(prev => prev.endsAt !== null ? prev : {
+      ...prev,
+      endsAt: startedAt + prev.remainingMs,
+      ownerId: TAB_ID,
+      workStartedAt: prev.mode === 'work' && prev.workStartedAt === null ? startedAt : prev.workStartedAt,
+    });
+  }, []);
+
+  const pause = useCallback(() => {
+    const pausedAt = Date.now();
+    setNow(pausedAt);
+    setState(prev => prev.endsAt === null ? prev : {
+      ...prev,
+      endsAt: null,
+      remainingMs: Math.max(0, prev.endsAt - pausedAt),
+      ownerId: TAB_ID,
+    });
+  }, []);
+
+  const toggle = useCallback(() => {
+    if (isRunning) pause();
+    else start();
+  }, [isRunning, pause, start]);
+
+  const switchMode = useCallback((mode: TimerMode) => {
+    const phaseMs = phaseMinutes(profileRef.current, mode) * 60_000;
+    setState(prev => ({ ...prev, mode, endsAt: null, remainingMs: phaseMs, phaseMs, workStartedAt: null, ownerId: TAB_ID }));
+  }, []);
+
+  const reset = useCallback(() => {
+    setState(prev => {
+      const phaseMs = phaseMinutes(profileRef.current, prev.mode) * 60_000;
+      return { ...prev, endsAt: null, remainingMs: phaseMs, phaseMs, workStartedAt: null, ownerId: TAB_ID };
+    });
+  }, []);
+
+  const skip = useCallback(() => {
+    switchMode(state.mode === 'work' ? 'shortBreak' : 'work');
+  }, [state.mode, switchMode]);
+
+  const setCurrentTask = useCallback((currentTask: string) => {
+    setState(prev => ({ ...prev, currentTask }));
+  }, []);
+
+  const setSoundEnabled = useCallback((soundEnabled: boolean) => {
+    setState(prev => ({ ...prev, soundEnabled }));
+  }, []);
+
+  // Takes the oldest pomodoro off the review queue, with the session it was logged as
+  // unless it was discarded
+  const finishReview = useCallback((loggedSessionId?: string) => {
+    setState(prev => ({
+      ...prev,
+      pendingReviews: prev.pendingReviews.slice(1),
+      lastLoggedSessionId: loggedSessionId ?? prev.lastLoggedSessionId,
+    }));
+  }, []);
+
+  return {
+    mode: state.mode,
+    isRunning,
+    // Not idle: running, or paused part-way through a phase
+    isActive: isRunning || state.remainingMs < state.phaseMs,
+    // Running, but another tab completes the phase and logs the session
+    runsInOtherTab: isRunning && state.ownerId !== null && state.ownerId !== TAB_ID,
+    timeLeft: Math.ceil(remainingMs / 1000),
+    totalSeconds: Math.round(state.phaseMs / 1000),
+    sessionsCompleted: state.sessionsCompleted,
+    totalFocusMinutes: state.totalFocusMinutes,
+    currentTask: state.currentTask,
+    soundEnabled: state.soundEnabled,
+    pendingReviews: state.pendingReviews,
+    lastLoggedSessionId: state.lastLoggedSessionId,
+    start, pause, toggle, switchMode, reset, skip,
+    setCurrentTask, setSoundEnabled, finishReview,
+  };
+}
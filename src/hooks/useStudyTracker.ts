@@ -1,84 +1,421 @@
-import { useState, useEffect, useCallback } from 'react';
-import { StudySession, DailyHabits, WeeklyTarget } from '@/lib/types';
-import { format, startOfWeek, endOfWeek, parseISO, isWithinInterval, subWeeks, differenceInMinutes, parse } from 'date-fns';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { StudySession, SessionInput, NewSessionInput, SessionResult, SessionSaveOptions, HabitDefinition, HabitEntry, HabitMeasure, ProgressionRules, RelapseLog, WeeklyTarget } from '@/lib/types';
+import { differenceInDays, format, endOfWeek, parseISO } from 'date-fns';
+import { minutesOnDate, minutesWithin, resolveSessionTimes } from '@/lib/sessionTime';
+import { checkIssues, getDataHealthIssues, prepareSession, validateSession } from '@/lib/sessionValidation';
+import { applyRecordChanges, DataStoreName, diffRecords, getDefaultAdapter, loadTrackerData, QuarantineRecord, StorageAdapter, StoreRecords } from '@/lib/storage';
+import { createSyncChannel, SyncChannel } from '@/lib/sync';
+import { changesByStore, editsBetween, EMPTY_HISTORY, forgetRecords, History, invertCommand, recordCommand, TrackerCommand } from '@/lib/history';
+import { getHabitStreak, getMonthlyCompletion, HabitStreak, habitEntryId, isHabitActiveOn, isHabitDayEditable, meetsTarget, sortHabits } from '@/lib/habits';
+import { getHabitInsights as computeHabitInsights, HabitInsight } from '@/lib/insights';
+import { keepRelapses } from '@/lib/relapses';
+import { advanceProgression, DEFAULT_PROGRESSION_RULES, progressionRulesSchema, weekStartOf } from '@/lib/progression';
 
-const SESSIONS_KEY = 'deepwork-sessions';
-const HABITS_KEY = 'deepwork-habits';
-const TARGETS_KEY = 'deepwork-targets';
+type PersistedStores = { [K in DataStoreName]: StoreRecords[K][] };
 
-function loadFromStorage<T>(key: string, fallback: T[]): T[] {
+const SYNC_CHANNEL = 'deepwork-tracker';
+const TRASH_RETENTION_KEY = 'deepwork-trash-retention';
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const HABIT_LOCK_KEY = 'deepwork-habit-lock';
+// Days after which past habit days become read-only; null keeps every day editable
+export const HABIT_LOCK_OPTIONS: (number | null)[] = [null, 1, 3, 7, 30];
+
+function loadTrashRetention(): number {
+  const days = Number(localStorage.getItem(TRASH_RETENTION_KEY));
+  return TRASH_RETENTION_OPTIONS.includes(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+function loadHabitLock(): number | null {
+  const days = Number(localStorage.getItem(HABIT_LOCK_KEY));
+  return HABIT_LOCK_OPTIONS.includes(days) ? days : null;
+}
+
+const PROGRESSION_RULES_KEY = 'deepwork-progression-rules';
+
+function loadProgressionRules(): ProgressionRules {
   try {
-    const data = localStorage.getItem(key);
-    return data ? JSON.parse(data) : fallback;
+    const parsed = progressionRulesSchema.safeParse(JSON.parse(localStorage.getItem(PROGRESSION_RULES_KEY) ?? 'null'));
+    return parsed.success ? parsed.data as ProgressionRules : DEFAULT_PROGRESSION_RULES;
   } catch {
-    return fallback;
+    return DEFAULT_PROGRESSION_RULES;
   }
 }
 
-function saveToStorage<T>(key: string, data: T[]) {
-  localStorage.setItem(key, JSON.stringify(data));
-}
+// Records another tracker (usually in another tab) has just written
+type TrackerChange = {
+  [K in keyof PersistedStores]: { from: string; store: K; changes: { put: StoreRecords[K][]; delete: string[] } };
+}[keyof PersistedStores];
 
-export function useStudyTracker() {
-  const [sessions, setSessions] = useState<StudySession[]>(() => loadFromStorage(SESSIONS_KEY, []));
-  const [habits, setHabits] = useState<DailyHabits[]>(() => loadFromStorage(HABITS_KEY, []));
-  const [targets, setTargets] = useState<WeeklyTarget[]>(() => loadFromStorage(TARGETS_KEY, []));
+export function useStudyTracker(adapter: StorageAdapter = getDefaultAdapter()) {
+  // Includes trashed sessions; everything else works with the active ones below
+  const [allSessions, setSessions] = useState<StudySession[]>([]);
+  const [habitDefinitions, setHabitDefinitions] = useState<HabitDefinition[]>([]);
+  const [habitEntries, setHabitEntries] = useState<HabitEntry[]>([]);
+  const [targets, setTargets] = useState<WeeklyTarget[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantineRecord[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(loadTrashRetention);
+  const [habitLockDays, setHabitLockDays] = useState(loadHabitLock);
+  const [progressionRules, setProgressionRules] = useState(loadProgressionRules);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  // Read through a ref so undo and redo stay stable, e.g. inside an already shown toast
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [isLoaded, setIsLoaded] = useState(false);
+  // What the adapter currently holds, to write only changed records
+  const sessions = useMemo(() => allSessions.filter(s => !s.deletedAt), [allSessions]);
+  const trash = useMemo(
+    () => allSessions.filter(s => s.deletedAt).sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? '')),
+    [allSessions],
+  );
+  // Every habit in display order, archived ones included
+  const habits = useMemo(() => sortHabits(habitDefinitions), [habitDefinitions]);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const activeHabits = useMemo(() => habits.filter(h => isHabitActiveOn(h, today)), [habits, today]);
+  const persisted = useRef<PersistedStores>({ sessions: [], habitDefinitions: [], habitEntries: [], targets: [] });
+  const instanceId = useRef(crypto.randomUUID()).current;
+  const channel = useRef<SyncChannel<TrackerChange> | null>(null);
 
-  useEffect(() => saveToStorage(SESSIONS_KEY, sessions), [sessions]);
-  useEffect(() => saveToStorage(HABITS_KEY, habits), [habits]);
-  useEffect(() => saveToStorage(TARGETS_KEY, targets), [targets]);
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const data = await loadTrackerData(adapter);
+      if (cancelled) return;
+      persisted.current = { sessions: data.sessions, habitDefinitions: data.habitDefinitions, habitEntries: data.habitEntries, targets: data.targets };
+      setSessions(data.sessions);
+      setHabitDefinitions(data.habitDefinitions);
+      setHabitEntries(data.habitEntries);
+      setTargets(data.targets);
+      setQuarantine(data.quarantine);
+      setIsLoaded(true);
+    })().catch(error => console.error('Failed to load tracker data', error));
+    return () => { cancelled = true; };
+  }, [adapter]);
 
-  const addSession = useCallback((session: Omit<StudySession, 'id' | 'durationMinutes'>) => {
-    const start = parse(session.startTime, 'HH:mm', new Date());
-    const end = parse(session.endTime, 'HH:mm', new Date());
-    const durationMinutes = differenceInMinutes(end, start);
-    if (durationMinutes <= 0) return;
+  // Other tabs write to the same database; merge their changes per record instead of
+  // letting whichever tab saves last overwrite the other's sessions
+  useEffect(() => {
+    const sync = createSyncChannel<TrackerChange>(SYNC_CHANNEL);
+    channel.current = sync;
+    const unsubscribe = sync.subscribe(message => {
+      if (message.from === instanceId) return;
+      // State and the persisted copy get the very same objects, so nothing is written back
+      const { current } = persisted;
+      switch (message.store) {
+        case 'sessions':
+          current.sessions = applyRecordChanges('sessions', current.sessions, message.changes);
+          setSessions(prev => applyRecordChanges('sessions', prev, message.changes));
+          break;
+        case 'habitDefinitions':
+          current.habitDefinitions = applyRecordChanges('habitDefinitions', current.habitDefinitions, message.changes);
+          setHabitDefinitions(prev => applyRecordChanges('habitDefinitions', prev, message.changes));
+          break;
+        case 'habitEntries':
+          current.habitEntries = applyRecordChanges('habitEntries', current.habitEntries, message.changes);
+          setHabitEntries(prev => applyRecordChanges('habitEntries', prev, message.changes));
+          break;
+        case 'targets':
+          current.targets = applyRecordChanges('targets', current.targets, message.changes);
+          setTargets(prev => applyRecordChanges('targets', prev, message.changes));
+          break;
+      }
+    });
+    return () => {
+      unsubscribe();
+      sync.close();
+      channel.current = null;
+    };
+  }, [instanceId]);
 
-    const newSession: StudySession = {
-      ...session,
-      id: crypto.randomUUID(),
+  const persist = useCallback(<K extends keyof PersistedStores>(store: K, next: PersistedStores[K]) => {
+    const changes = diffRecords<K>(store, persisted.current[store], next);
+    persisted.current[store] = next;
+    if (changes.put.length === 0 && changes.delete.length === 0) return;
+    adapter.write(store, changes)
+      .then(() => channel.current?.post({ from: instanceId, store, changes } as TrackerChange))
+      .catch(error => console.error(`Failed to save ${store}`, error));
+  }, [adapter, instanceId]);
+
+  useEffect(() => { if (isLoaded) persist('sessions', allSessions); }, [isLoaded, allSessions, persist]);
+  useEffect(() => { if (isLoaded) persist('habitDefinitions', habitDefinitions); }, [isLoaded, habitDefinitions, persist]);
+  useEffect(() => { if (isLoaded) persist('habitEntries', habitEntries); }, [isLoaded, habitEntries, persist]);
+  useEffect(() => { if (isLoaded) persist('targets', targets); }, [isLoaded, targets, persist]);
+
+  // Every user-facing mutation goes through a command so it can be undone
+  const applyCommand = useCallback((command: TrackerCommand) => {
+    const changes = changesByStore(command);
+    const touched = (store: keyof typeof changes) => changes[store].put.length > 0 || changes[store].delete.length > 0;
+    if (touched('sessions')) setSessions(prev => applyRecordChanges('sessions', prev, changes.sessions));
+    if (touched('habitDefinitions')) setHabitDefinitions(prev => applyRecordChanges('habitDefinitions', prev, changes.habitDefinitions));
+    if (touched('habitEntries')) setHabitEntries(prev => applyRecordChanges('habitEntries', prev, changes.habitEntries));
+    if (touched('targets')) setTargets(prev => applyRecordChanges('targets', prev, changes.targets));
+  }, []);
+
+  const execute = useCallback((command: TrackerCommand) => {
+    applyCommand(command);
+    setHistory(prev => recordCommand(prev, command));
+  }, [applyCommand]);
+
+  // Both return the command they reverted or reapplied, for feedback in the UI
+  const undo = useCallback((): TrackerCommand | null => {
+    const command = historyRef.current.undo[historyRef.current.undo.length - 1];
+    if (!command) return null;
+    applyCommand(invertCommand(command));
+    setHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, command] }));
+    return command;
+  }, [applyCommand]);
+
+  const redo = useCallback((): TrackerCommand | null => {
+    const command = historyRef.current.redo[historyRef.current.redo.length - 1];
+    if (!command) return null;
+    applyCommand(command);
+    setHistory(prev => ({ undo: [...prev.undo, command], redo: prev.redo.slice(0, -1) }));
+    return command;
+  }, [applyCommand]);
+
+  const addSession = useCallback((session: NewSessionInput, options: SessionSaveOptions = {}): SessionResult => {
+    const prepared = prepareSession(session, allSessions, options);
+    if (!('session' in prepared)) return prepared;
+    const before = allSessions.find(s => s.id === prepared.session.id) ?? null;
+    execute({ label: 'Add session', edits: [{ store: 'sessions', key: prepared.session.id, before, after: prepared.session }] });
+    return { id: prepared.session.id };
+  }, [allSessions, execute]);
+
+  // Adds many sessions in one update, validating each against the ones added before it
+  const addSessions = useCallback((inputs: NewSessionInput[], options: SessionSaveOptions = {}): SessionResult[] => {
+    const added: StudySession[] = [];
+    const results = inputs.map((input): SessionResult => {
+      const prepared = prepareSession(input, [...allSessions, ...added], options);
+      if (!('session' in prepared)) return prepared;
+      added.push(prepared.session);
+      return { id: prepared.session.id };
+    });
+    execute({
+      label: `Import ${added.length} session${added.length !== 1 ? 's' : ''}`,
+      edits: added.map(session => ({ store: 'sessions', key: session.id, before: allSessions.find(s => s.id === session.id) ?? null, after: session })),
+    });
+    return results;
+  }, [allSessions, execute]);
+
+  const updateSession = useCallback((id: string, changes: SessionInput, options: SessionSaveOptions = {}): SessionResult => {
+    const existing = sessions.find(s => s.id === id);
+    if (!existing) return { error: 'This session no longer exists.' };
+    const resolved = resolveSessionTimes(changes.date, changes.startTime, changes.endTime);
+    if ('error' in resolved) return { error: resolved.error };
+
+    // Keep the focused minutes of timer-logged sessions unless the times were edited
+    const timesUnchanged = existing.startAt === resolved.startAt && existing.endAt === resolved.endAt;
+    const durationMinutes = timesUnchanged ? Math.min(existing.durationMinutes, resolved.spanMinutes) : resolved.spanMinutes;
+    const updated: StudySession = { ...changes, id, startAt: resolved.startAt, endAt: resolved.endAt, durationMinutes };
+    const blocked = checkIssues(validateSession(updated, sessions), options);
+    if (blocked) return blocked;
+    execute({ label: 'Edit session', edits: [{ store: 'sessions', key: id, before: existing, after: updated }] });
+    return { id };
+  }, [sessions, execute]);
+
+  // Appends another block of focused work (e.g. a consecutive pomodoro) to an existing session
+  const extendSession = useCallback((
+    id: string,
+    next: Pick<StudySession, 'endAt' | 'durationMinutes' | 'focusQuality' | 'distractionCount' | 'energyLevel' | 'notes'>,
+    options: SessionSaveOptions = {},
+  ): SessionResult => {
+    const s = sessions.find(session => session.id === id);
+    if (!s) return { error: 'This session no longer exists.' };
+    const durationMinutes = s.durationMinutes + next.durationMinutes;
+    const extended: StudySession = {
+      ...s,
+      endAt: next.endAt,
+      endTime: format(parseISO(next.endAt), 'HH:mm'),
       durationMinutes,
+      focusQuality: Math.round((s.focusQuality * s.durationMinutes + next.focusQuality * next.durationMinutes) / durationMinutes),
+      distractionCount: s.distractionCount + next.distractionCount,
+      energyLevel: next.energyLevel,
+      notes: [s.notes, next.notes].filter(Boolean).join('; '),
     };
-    setSessions(prev => [...prev, newSession]);
-  }, []);
+    // The longer span may now run into something logged in between
+    const blocked = checkIssues(validateSession(extended, sessions), options);
+    if (blocked) return blocked;
+    execute({ label: 'Merge pomodoro', edits: [{ store: 'sessions', key: id, before: s, after: extended }] });
+    return { id };
+  }, [sessions, execute]);
 
+  // Moves the session to the trash; it can be restored until the retention period ends
   const deleteSession = useCallback((id: string) => {
-    setSessions(prev => prev.filter(s => s.id !== id));
-  }, []);
+    const existing = sessions.find(s => s.id === id);
+    if (!existing) return;
+    const trashed = { ...existing, deletedAt: new Date().toISOString() };
+    execute({ label: 'Delete session', edits: [{ store: 'sessions', key: id, before: existing, after: trashed }] });
+  }, [sessions, execute]);
 
-  const updateHabits = useCallback((dailyHabits: DailyHabits) => {
-    setHabits(prev => {
-      const existing = prev.findIndex(h => h.date === dailyHabits.date);
-      if (existing >= 0) {
-        const updated = [...prev];
-        updated[existing] = dailyHabits;
-        return updated;
-      }
-      return [...prev, dailyHabits];
+  const restoreSession = useCallback((id: string): SessionResult => {
+    const trashed = trash.find(s => s.id === id);
+    if (!trashed) return { error: 'This session is no longer in the trash.' };
+    const { deletedAt: _deletedAt, ...restored } = trashed;
+    // Something may have been logged in its place since it was deleted
+    const blocked = checkIssues(validateSession(restored, sessions), { confirmWarnings: true });
+    if (blocked) return blocked;
+    execute({ label: 'Restore session', edits: [{ store: 'sessions', key: id, before: trashed, after: restored }] });
+    return { id };
+  }, [trash, sessions, execute]);
+
+  const purgeSessions = useCallback((ids: string[]) => {
+    const purged = trash.filter(s => ids.includes(s.id));
+    execute({
+      label: purged.length === 1 ? 'Delete session permanently' : 'Empty trash',
+      edits: purged.map(s => ({ store: 'sessions', key: s.id, before: s, after: null })),
     });
+  }, [trash, execute]);
+
+  const updateTrashRetention = useCallback((days: number) => {
+    localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+    setTrashRetentionDays(days);
   }, []);
 
-  const getHabitsForDate = useCallback((date: string): DailyHabits | undefined => {
-    return habits.find(h => h.date === date);
-  }, [habits]);
+  // Trashed sessions older than the retention period are deleted for good. Like purging
+  // by hand, but not undoable, and earlier edits to them leave the history with them.
+  useEffect(() => {
+    if (!isLoaded) return;
+    const now = new Date();
+    const expired = trash.filter(s => differenceInDays(now, parseISO(s.deletedAt as string)) >= trashRetentionDays);
+    if (expired.length === 0) return;
+    applyCommand({ label: 'Empty trash', edits: expired.map(s => ({ store: 'sessions', key: s.id, before: s, after: null })) });
+    setHistory(prev => forgetRecords(prev, 'sessions', expired.map(s => s.id)));
+  }, [isLoaded, trash, trashRetentionDays, applyCommand]);
+
+  const isHabitDayLocked = useCallback((date: string) => !isHabitDayEditable(date, today, habitLockDays), [today, habitLockDays]);
+
+  const setHabitDone = useCallback((habitId: string, date: string, done: boolean) => {
+    if (isHabitDayLocked(date)) return;
+    const id = habitEntryId(habitId, date);
+    const existing = habitEntries.find(e => e.id === id) ?? null;
+    // A day with a relapse cannot be checked off; keepRelapses would undo it anyway
+    if (done && existing?.relapses?.length) return;
+    const after = keepRelapses({ id, habitId, date, done }, existing);
+    execute({ label: 'Update habit', edits: [{ store: 'habitEntries', key: id, before: existing, after }] });
+  }, [habitEntries, isHabitDayLocked, execute]);
+
+  // Records a measured habit; null clears the day
+  const setHabitValue = useCallback((habitId: string, date: string, value: number | null) => {
+    if (isHabitDayLocked(date)) return;
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit?.measure) return;
+    const id = habitEntryId(habitId, date);
+    const existing = habitEntries.find(e => e.id === id) ?? null;
+    const after = keepRelapses(value === null ? null : { id, habitId, date, done: meetsTarget(habit.measure, value), value }, existing);
+    if (!existing && !after) return;
+    execute({ label: 'Update habit', edits: [{ store: 'habitEntries', key: id, before: existing, after }] });
+  }, [habits, habitEntries, isHabitDayLocked, execute]);
+
+  // Marks a planned rest day, or takes the mark off again
+  const setHabitRest = useCallback((habitId: string, date: string, rest: boolean) => {
+    if (isHabitDayLocked(date)) return;
+    const id = habitEntryId(habitId, date);
+    const existing = habitEntries.find(e => e.id === id) ?? null;
+    const after = keepRelapses(rest ? { id, habitId, date, done: false, rest: true } : null, existing);
+    if (!existing && !after) return;
+    execute({ label: rest ? 'Mark rest day' : 'Clear rest day', edits: [{ store: 'habitEntries', key: id, before: existing, after }] });
+  }, [habitEntries, isHabitDayLocked, execute]);
+
+  // Logs a relapse on a habit that tracks them, which marks the day as not done
+  const addRelapse = useCallback((habitId: string, date: string, relapse: Omit<RelapseLog, 'id'>) => {
+    if (isHabitDayLocked(date)) return;
+    const id = habitEntryId(habitId, date);
+    const existing = habitEntries.find(e => e.id === id) ?? null;
+    const after: HabitEntry = {
+      id, habitId, date, done: false,
+      ...(existing?.value !== undefined && { value: existing.value }),
+      relapses: [...(existing?.relapses ?? []), { ...relapse, id: crypto.randomUUID() }],
+    };
+    execute({ label: 'Log relapse', edits: [{ store: 'habitEntries', key: id, before: existing, after }] });
+  }, [habitEntries, isHabitDayLocked, execute]);
+
+  const removeRelapse = useCallback((habitId: string, date: string, relapseId: string) => {
+    if (isHabitDayLocked(date)) return;
+    const id = habitEntryId(habitId, date);
+    const existing = habitEntries.find(e => e.id === id);
+    if (!existing?.relapses?.some(r => r.id === relapseId)) return;
+    const after: HabitEntry = { ...existing, relapses: existing.relapses.filter(r => r.id !== relapseId) };
+    if (after.relapses?.length === 0) delete after.relapses;
+    execute({ label: 'Delete relapse', edits: [{ store: 'habitEntries', key: id, before: existing, after }] });
+  }, [habitEntries, isHabitDayLocked, execute]);
+
+  const updateHabitLock = useCallback((days: number | null) => {
+    if (days === null) localStorage.removeItem(HABIT_LOCK_KEY);
+    else localStorage.setItem(HABIT_LOCK_KEY, String(days));
+    setHabitLockDays(days);
+  }, []);
+
+  // Entries recorded on a date, keyed by habit id
+  const getHabitEntriesForDate = useCallback((date: string): Record<string, HabitEntry> => {
+    return Object.fromEntries(habitEntries.filter(e => e.date === date).map(e => [e.habitId, e]));
+  }, [habitEntries]);
+
+  const addHabit = useCallback((label: string, icon: string, measure?: HabitMeasure): string => {
+    const habit: HabitDefinition = {
+      id: crypto.randomUUID(),
+      label,
+      icon,
+      ...(measure && { measure }),
+      order: habits.reduce((max, h) => Math.max(max, h.order + 1), 0),
+      createdAt: today,
+      archivedAt: null,
+    };
+    execute({ label: 'Add habit', edits: [{ store: 'habitDefinitions', key: habit.id, before: null, after: habit }] });
+    return habit.id;
+  }, [habits, today, execute]);
+
+  const updateHabit = useCallback((id: string, changes: Partial<Pick<HabitDefinition, 'label' | 'icon' | 'measure' | 'schedule' | 'tracksRelapses'>>) => {
+    const existing = habits.find(h => h.id === id);
+    if (!existing) return;
+    execute({ label: 'Edit habit', edits: [{ store: 'habitDefinitions', key: id, before: existing, after: { ...existing, ...changes } }] });
+  }, [habits, execute]);
+
+  // Swaps a habit with its neighbour among the active habits
+  const moveHabit = useCallback((id: string, direction: -1 | 1) => {
+    const index = activeHabits.findIndex(h => h.id === id);
+    const neighbour = activeHabits[index + direction];
+    if (index === -1 || !neighbour) return;
+    const habit = activeHabits[index];
+    execute({
+      label: 'Reorder habits',
+      edits: [
+        { store: 'habitDefinitions', key: habit.id, before: habit, after: { ...habit, order: neighbour.order } },
+        { store: 'habitDefinitions', key: neighbour.id, before: neighbour, after: { ...neighbour, order: habit.order } },
+      ],
+    });
+  }, [activeHabits, execute]);
+
+  // Archived habits stop counting from today but keep their history
+  const archiveHabit = useCallback((id: string) => {
+    const existing = habits.find(h => h.id === id);
+    if (!existing || existing.archivedAt) return;
+    execute({ label: 'Archive habit', edits: [{ store: 'habitDefinitions', key: id, before: existing, after: { ...existing, archivedAt: today } }] });
+  }, [habits, today, execute]);
+
+  const unarchiveHabit = useCallback((id: string) => {
+    const existing = habits.find(h => h.id === id);
+    if (!existing?.archivedAt) return;
+    execute({ label: 'Unarchive habit', edits: [{ store: 'habitDefinitions', key: id, before: existing, after: { ...existing, archivedAt: null } }] });
+  }, [habits, execute]);
 
   const getSessionsForDate = useCallback((date: string): StudySession[] => {
     return sessions.filter(s => s.date === date);
   }, [sessions]);
 
+  // Sessions past midnight split their minutes across the days they touch
   const getDailyTotalHours = useCallback((date: string): number => {
-    const daySessions = getSessionsForDate(date);
-    const totalMinutes = daySessions.reduce((sum, s) => sum + s.durationMinutes, 0);
+    const totalMinutes = minutesOnDate(sessions, date);
     return Math.round((totalMinutes / 60) * 100) / 100;
-  }, [getSessionsForDate]);
+  }, [sessions]);
 
   const getWeeklyStats = useCallback((weekStart: Date) => {
     const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-    const weekSessions = sessions.filter(s => {
-      const d = parseISO(s.date);
-      return isWithinInterval(d, { start: weekStart, end: weekEnd });
-    });
-    const totalMinutes = weekSessions.reduce((sum, s) => sum + s.durationMinutes, 0);
+    const weekMinutes = sessions
+      .map(s => ({ session: s, minutes: minutesWithin(s, weekStart, weekEnd) }))
+      .filter(({ minutes }) => minutes > 0);
+    const weekSessions = weekMinutes.map(({ session }) => session);
+    const totalMinutes = weekMinutes.reduce((sum, { minutes }) => sum + minutes, 0);
     const totalHours = totalMinutes / 60;
     const avgFocus = weekSessions.length > 0
       ? weekSessions.reduce((sum, s) => sum + s.focusQuality, 0) / weekSessions.length
@@ -86,70 +423,83 @@ export function useStudyTracker() {
 
     // Subject distribution
     const subjectMap: Record<string, number> = {};
-    weekSessions.forEach(s => {
-      subjectMap[s.subject] = (subjectMap[s.subject] || 0) + s.durationMinutes;
+    weekMinutes.forEach(({ session, minutes }) => {
+      subjectMap[session.subject] = (subjectMap[session.subject] || 0) + minutes;
     });
 
     return { totalHours, avgFocus, subjectMap, sessionCount: weekSessions.length };
   }, [sessions]);
 
-  // Initialize current week target on mount / when targets change
+  // Closes finished weeks and sets up the current one, also when the app stays open into a new week
+  const currentWeek = weekStartOf(new Date());
   useEffect(() => {
-    const weekStart = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
-    const existing = targets.find(t => t.weekStart === weekStart);
-    if (!existing) {
-      const prevWeekStart = format(startOfWeek(subWeeks(new Date(), 1), { weekStartsOn: 1 }), 'yyyy-MM-dd');
-      const prevTarget = targets.find(t => t.weekStart === prevWeekStart);
-      const baseTarget = prevTarget ? Math.min(prevTarget.targetHours + 0.5, 10) : 5;
-      setTargets(prev => [...prev, {
-        weekStart,
-        targetHours: Math.round(baseTarget * 10) / 10,
-        actualHours: 0,
-        met: false,
-      }]);
-    }
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+    if (!isLoaded) return;
+    const updates = advanceProgression(targets, sessions, progressionRules);
+    if (updates.length === 0) return;
+    setTargets(prev => [...prev.filter(t => !updates.some(u => u.weekStart === t.weekStart)), ...updates]);
+  }, [isLoaded, targets, sessions, progressionRules, currentWeek]);
 
   const getCurrentWeekTarget = useCallback((): WeeklyTarget => {
-    const weekStart = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
-    const existing = targets.find(t => t.weekStart === weekStart);
+    const existing = targets.find(t => t.weekStart === currentWeek);
     if (existing) return existing;
-    return { weekStart, targetHours: 5, actualHours: 0, met: false };
-  }, [targets]);
-
-  const getHabitStreaks = useCallback(() => {
-    const sortedHabits = [...habits].sort((a, b) => a.date.localeCompare(b.date));
-    const habitKeys = ['wakeUpOnTime', 'sleepEnough', 'exercise', 'englishPractice', 'noPorn', 'noSocialMedia'] as const;
-    
-    const streaks: Record<string, number> = {};
-    habitKeys.forEach(key => {
-      let streak = 0;
-      for (let i = sortedHabits.length - 1; i >= 0; i--) {
-        if (sortedHabits[i][key]) streak++;
-        else break;
-      }
-      streaks[key] = streak;
-    });
-    return streaks;
-  }, [habits]);
+    return { weekStart: currentWeek, targetHours: progressionRules.startHours, actualHours: 0, met: false };
+  }, [targets, currentWeek, progressionRules]);
+
+  // New rules shape the weeks to come; the current week keeps its target
+  const updateProgressionRules = useCallback((rules: ProgressionRules) => {
+    localStorage.setItem(PROGRESSION_RULES_KEY, JSON.stringify(rules));
+    setProgressionRules(rules);
+  }, []);
+
+  // Sets this week's target by hand. The planned target is kept so the override can be taken back.
+  const overrideWeekTarget = useCallback((targetHours: number, reason: string) => {
+    const existing = targets.find(t => t.weekStart === currentWeek);
+    if (!existing) return;
+    const after: WeeklyTarget = { ...existing, targetHours, plannedHours: existing.plannedHours ?? existing.targetHours, overrideReason: reason };
+    execute({ label: 'Override weekly target', edits: [{ store: 'targets', key: currentWeek, before: existing, after }] });
+  }, [targets, currentWeek, execute]);
+
+  const clearWeekTargetOverride = useCallback(() => {
+    const existing = targets.find(t => t.weekStart === currentWeek);
+    if (existing?.plannedHours === undefined) return;
+    const after: WeeklyTarget = { ...existing, targetHours: existing.plannedHours };
+    delete after.plannedHours;
+    delete after.overrideReason;
+    execute({ label: 'Clear target override', edits: [{ store: 'targets', key: currentWeek, before: existing, after }] });
+  }, [targets, currentWeek, execute]);
+
+  // Current and longest streak of each active habit, keyed by habit id
+  const getHabitStreaks = useCallback((): Record<string, HabitStreak> => {
+    return Object.fromEntries(activeHabits.map(h => [h.id, getHabitStreak(h, habitEntries, today)]));
+  }, [activeHabits, habitEntries, today]);
 
   const getMonthlyHabitCompletion = useCallback(() => {
-    const currentMonth = format(new Date(), 'yyyy-MM');
-    const monthHabits = habits.filter(h => h.date.startsWith(currentMonth));
-    if (monthHabits.length === 0) return { overall: 0, english: 0 };
-
-    const total = monthHabits.length * 6;
-    const completed = monthHabits.reduce((sum, h) => {
-      return sum + (h.wakeUpOnTime ? 1 : 0) + (h.sleepEnough ? 1 : 0) + (h.exercise ? 1 : 0) +
-        (h.englishPractice ? 1 : 0) + (h.noPorn ? 1 : 0) + (h.noSocialMedia ? 1 : 0);
-    }, 0);
-
-    const englishDays = monthHabits.filter(h => h.englishPractice).length;
-    return {
-      overall: Math.round((completed / total) * 100),
-      english: Math.round((englishDays / monthHabits.length) * 100),
-    };
-  }, [habits]);
+    return getMonthlyCompletion(habits, habitEntries, format(new Date(), 'yyyy-MM'), today);
+  }, [habits, habitEntries, today]);
+
+  const getHabitInsights = useCallback((): HabitInsight[] => {
+    return computeHabitInsights(activeHabits, habitEntries, sessions, today);
+  }, [activeHabits, habitEntries, sessions, today]);
+
+  // Swaps in a full data set at once, e.g. after importing a backup
+  const replaceData = useCallback((data: PersistedStores, label = 'Import backup') => {
+    execute({
+      label,
+      edits: [
+        ...editsBetween('sessions', allSessions, data.sessions),
+        ...editsBetween('habitDefinitions', habitDefinitions, data.habitDefinitions),
+        ...editsBetween('habitEntries', habitEntries, data.habitEntries),
+        ...editsBetween('targets', targets, data.targets),
+      ],
+    });
+  }, [allSessions, habitDefinitions, habitEntries, targets, execute]);
+
+  const getDataHealthReport = useCallback(() => getDataHealthIssues(sessions), [sessions]);
+
+  const clearQuarantine = useCallback(() => {
+    setQuarantine([]);
+    adapter.clear('quarantine').catch(error => console.error('Failed to clear quarantine', error));
+  }, [adapter]);
 
   const getLast7DaysData = useCallback(() => {
     const data = [];
@@ -168,10 +518,13 @@ export function useStudyTracker() {
   }, [getDailyTotalHours, getSessionsForDate]);
 
   return {
-    sessions, habits, targets,
-    addSession, deleteSession, updateHabits,
-    getHabitsForDate, getSessionsForDate, getDailyTotalHours,
+    sessions, allSessions, trash, habits, activeHabits, habitEntries, targets, quarantine, isLoaded, trashRetentionDays, habitLockDays, progressionRules,
+    addSession, addSessions, updateSession, extendSession, deleteSession, restoreSession, purgeSessions,
+    setHabitDone, setHabitValue, setHabitRest, addRelapse, removeRelapse, addHabit, updateHabit, moveHabit, archiveHabit, unarchiveHabit, replaceData, updateTrashRetention, updateHabitLock,
+    updateProgressionRules, overrideWeekTarget, clearWeekTargetOverride,
+    isHabitDayLocked, getHabitEntriesForDate, getSessionsForDate, getDailyTotalHours,
     getWeeklyStats, getCurrentWeekTarget, getHabitStreaks,
-    getMonthlyHabitCompletion, getLast7DaysData,
+    getMonthlyHabitCompletion, getHabitInsights, getLast7DaysData, getDataHealthReport, clearQuarantine,
+    undo, redo, canUndo: history.undo.length > 0, canRedo: history.redo.length > 0,
   };
 }
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TimerProfile } from '@/lib/types';
+import { DEFAULT_PROFILES, findProfileForSubject } from '@/lib/timerProfiles';
+
+const PROFILES_KEY = 'deepwork-timer-profiles';
+const ACTIVE_PROFILE_KEY = 'deepwork-timer-profile';
+
+function loadProfiles(): TimerProfile[] {
+  try {
+    const data = localStorage.getItem(PROFILES_KEY);
+    const profiles: TimerProfile[] = data ? JSON.parse(data) : [];
+    return profiles.length > 0 ? profiles : DEFAULT_PROFILES;
+  } catch {
+    return DEFAULT_PROFILES;
+  }
+}
+
+export function useTimerProfiles() {
+  const [profiles, setProfiles] = useState<TimerProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(() => localStorage.getItem(ACTIVE_PROFILE_KEY) ?? DEFAULT_PROFILES[0].id);
+
+  useEffect(() => localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles)), [profiles]);
+  useEffect(() => localStorage.setItem(ACTIVE_PROFILE_KEY, activeProfileId), [activeProfileId]);
+
+  // Keep profiles edited in another tab in step, so both tabs time phases the same way
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === PROFILES_KEY) setProfiles(loadProfiles());
+      if (event.key === ACTIVE_PROFILE_KEY && event.newValue) setActiveProfileId(event.newValue);
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+
+  const saveProfile = useCallback((profile: Omit<TimerProfile, 'id'> & { id?: string }) => {
+    const saved: TimerProfile = { ...profile, id: profile.id ?? crypto.randomUUID() };
+    setProfiles(prev => {
+      // A subject can only be bound to one profile
+      const others = prev
+        .filter(p => p.id !== saved.id)
+        .map(p => ({ ...p, subjects: p.subjects.filter(s => !findProfileForSubject([saved], s)) }));
+      const existing = prev.findIndex(p => p.id === saved.id);
+      if (existing < 0) return [...others, saved];
+      const updated = [...others];
+      updated.splice(existing, 0, saved);
+      return updated;
+    });
+    return saved.id;
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles(prev => prev.length > 1 ? prev.filter(p => p.id !== id) : prev);
+  }, []);
+
+  const restoreProfiles = useCallback((restored: TimerProfile[], activeId: string) => {
+    if (restored.length === 0) return;
+    setProfiles(restored);
+    setActiveProfileId(restored.some(p => p.id === activeId) ? activeId : restored[0].id);
+  }, []);
+
+  const getProfileForSubject = useCallback((subject: string) => {
+    return findProfileForSubject(profiles, subject);
+  }, [profiles]);
+
+  return {
+    profiles, activeProfile,
+    selectProfile: setActiveProfileId,
+    saveProfile, deleteProfile, restoreProfiles, getProfileForSubject,
+  };
+}
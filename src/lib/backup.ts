@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { ProgressionRules, TimerProfile } from '@/lib/types';
+import { progressionRulesSchema } from '@/lib/progression';
+import { DataStoreName, QuarantineRecord, SCHEMA_VERSION, StoreRecords, STORE_KEYS, upgradeData } from '@/lib/storage';
+
+export const BACKUP_FORMAT = 'deepwork-backup';
+// Version of the file envelope; record shapes are versioned separately by schemaVersion
+export const BACKUP_VERSION = 1;
+
+export type BackupData = { [K in DataStoreName]: StoreRecords[K][] };
+
+export interface BackupSettings {
+  timerProfiles: TimerProfile[];
+  activeTimerProfileId: string;
+  // Missing from backups made before these settings existed
+  trashRetentionDays?: number;
+  habitLockDays?: number | null;
+  progressionRules?: ProgressionRules;
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  data: BackupData;
+  settings: BackupSettings;
+}
+
+export interface ParsedBackup {
+  exportedAt: string;
+  data: BackupData;
+  settings: BackupSettings | null;
+  // Records in the file that failed migration or validation and will not be imported
+  rejected: QuarantineRecord[];
+}
+
+const timerProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  workMinutes: z.number().positive(),
+  shortBreakMinutes: z.number().positive(),
+  longBreakMinutes: z.number().positive(),
+  longBreakInterval: z.number().int().positive(),
+  autoStartNext: z.boolean(),
+  dailyGoal: z.number().int().nonnegative(),
+  subjects: z.array(z.string()),
+});
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  schemaVersion: z.number().int().positive(),
+  exportedAt: z.string().datetime({ offset: true }),
+  data: z.object({
+    sessions: z.array(z.unknown()).default([]),
+    habitDefinitions: z.array(z.unknown()).default([]),
+    habitEntries: z.array(z.unknown()).default([]),
+    targets: z.array(z.unknown()).default([]),
+    // Fixed daily habits from backups before schema version 3
+    habits: z.array(z.unknown()).default([]),
+  }),
+  settings: z.object({
+    timerProfiles: z.array(timerProfileSchema).min(1),
+    activeTimerProfileId: z.string(),
+    trashRetentionDays: z.number().int().positive().optional(),
+    habitLockDays: z.number().int().positive().nullable().optional(),
+    progressionRules: progressionRulesSchema.optional(),
+  }).optional(),
+});
+
+export function createBackup(data: BackupData, settings: BackupSettings, now = new Date()): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    data,
+    settings,
+  };
+}
+
+export function parseBackup(text: string): ParsedBackup | { error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { error: 'This file is not valid JSON.' };
+  }
+  const parsed = backupSchema.safeParse(json);
+  if (!parsed.success) {
+    return { error: 'This file is not a Deep Work backup.' };
+  }
+  const backup = parsed.data;
+  if (backup.version > BACKUP_VERSION || backup.schemaVersion > SCHEMA_VERSION) {
+    return { error: 'This backup was made by a newer version of the app. Update before importing it.' };
+  }
+
+  // Older backups go through the same migrations as stored data
+  const { data, quarantined } = upgradeData(backup.data, backup.schemaVersion);
+
+  return {
+    exportedAt: backup.exportedAt,
+    data,
+    settings: backup.settings ? (backup.settings as BackupSettings) : null,
+    rejected: quarantined,
+  };
+}
+
+export interface RecordConflict<T> {
+  key: string;
+  current: T;
+  incoming: T;
+  fields: string[];
+}
+
+export interface StoreDiff<T> {
+  added: T[];
+  conflicts: RecordConflict<T>[];
+  unchanged: number;
+  // Records that exist here but not in the backup
+  localOnly: T[];
+}
+
+export type BackupDiff = { [K in DataStoreName]: StoreDiff<StoreRecords[K]> };
+
+function changedFields(a: object, b: object): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter(k =>
+    JSON.stringify((a as Record<string, unknown>)[k]) !== JSON.stringify((b as Record<string, unknown>)[k]),
+  );
+}
+
+function diffStore<K extends DataStoreName>(store: K, current: StoreRecords[K][], incoming: StoreRecords[K][]): StoreDiff<StoreRecords[K]> {
+  const keyField = STORE_KEYS[store];
+  const currentByKey = new Map(current.map(r => [String(r[keyField]), r]));
+  const incomingKeys = new Set(incoming.map(r => String(r[keyField])));
+  const diff: StoreDiff<StoreRecords[K]> = { added: [], conflicts: [], unchanged: 0, localOnly: [] };
+
+  incoming.forEach(record => {
+    const key = String(record[keyField]);
+    const existing = currentByKey.get(key);
+    if (!existing) {
+      diff.added.push(record);
+      return;
+    }
+    const fields = changedFields(existing, record);
+    if (fields.length === 0) diff.unchanged++;
+    else diff.conflicts.push({ key, current: existing, incoming: record, fields });
+  });
+  diff.localOnly = current.filter(r => !incomingKeys.has(String(r[keyField])));
+  return diff;
+}
+
+export function diffBackup(current: BackupData, incoming: BackupData): BackupDiff {
+  return {
+    sessions: diffStore('sessions', current.sessions, incoming.sessions),
+    habitDefinitions: diffStore('habitDefinitions', current.habitDefinitions, incoming.habitDefinitions),
+    habitEntries: diffStore('habitEntries', current.habitEntries, incoming.habitEntries),
+    targets: diffStore('targets', current.targets, incoming.targets),
+  };
+}
+
+export type ImportMode = 'replace' | 'merge';
+// How merge resolves a record that exists on both sides with different content
+export type ConflictResolution = 'keep' | 'overwrite';
+
+// Untouched local records keep their identity so only real changes get persisted
+function mergeStore<K extends DataStoreName>(store: K, current: StoreRecords[K][], diff: StoreDiff<StoreRecords[K]>, resolution: ConflictResolution): StoreRecords[K][] {
+  const keyField = STORE_KEYS[store];
+  const overwrites = new Map(resolution === 'overwrite' ? diff.conflicts.map(c => [c.key, c.incoming]) : []);
+  return [
+    ...current.map(r => overwrites.get(String(r[keyField])) ?? r),
+    ...diff.added,
+  ];
+}
+
+export function applyBackup(current: BackupData, incoming: BackupData, mode: ImportMode, resolution: ConflictResolution = 'keep'): BackupData {
+  if (mode === 'replace') return incoming;
+  const diff = diffBackup(current, incoming);
+  return {
+    sessions: mergeStore('sessions', current.sessions, diff.sessions, resolution),
+    habitDefinitions: mergeStore('habitDefinitions', current.habitDefinitions, diff.habitDefinitions, resolution),
+    habitEntries: mergeStore('habitEntries', current.habitEntries, diff.habitEntries, resolution),
+    targets: mergeStore('targets', current.targets, diff.targets, resolution),
+  };
+}
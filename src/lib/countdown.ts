@@ -0,0 +1,60 @@
+// Wall-clock countdown engine.
+//
+// Remaining time is always derived from an absolute end timestamp instead of
+// being decremented per tick, so late or throttled timers (background tabs,
+// a sleeping laptop) can only delay a repaint, never make the timer drift.
+
+export interface CountdownOptions {
+  endsAt: number;
+  onTick: (remainingMs: number) => void;
+  // Receives the scheduled end time, not the (possibly much later) moment it was noticed
+  onComplete: (endedAt: number) => void;
+  now?: () => number;
+}
+
+export function getRemainingMs(endsAt: number, now: number): number {
+  return Math.max(0, endsAt - now);
+}
+
+// Delay until the displayed whole-second value next changes
+export function msUntilNextSecond(remainingMs: number): number {
+  const offset = remainingMs % 1000;
+  return offset === 0 ? 1000 : offset;
+}
+
+export function createCountdown({ endsAt, onTick, onComplete, now = Date.now }: CountdownOptions): () => void {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let done = false;
+
+  const stop = () => {
+    done = true;
+    if (timeout !== null) clearTimeout(timeout);
+    timeout = null;
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', handleVisibility);
+    }
+  };
+
+  const tick = () => {
+    if (done) return;
+    if (timeout !== null) clearTimeout(timeout);
+    const remaining = getRemainingMs(endsAt, now());
+    if (remaining === 0) {
+      stop();
+      onComplete(endsAt);
+      return;
+    }
+    onTick(remaining);
+    timeout = setTimeout(tick, msUntilNextSecond(remaining));
+  };
+
+  function handleVisibility() {
+    if (document.visibilityState === 'visible') tick();
+  }
+
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', handleVisibility);
+  }
+  tick();
+  return stop;
+}
@@ -0,0 +1,264 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, endOfMonth, endOfWeek, format, getDay, parseISO, startOfMonth, startOfWeek, subDays } from 'date-fns';
+import { HabitDefinition, HabitEntry, HabitMeasure, HabitSchedule } from '@/lib/types';
+
+// The habits every tracker starts with. Their ids are the field names of the old
+// fixed-habit records, so migrated history lines up with them.
+export const DEFAULT_HABITS: Pick<HabitDefinition, 'id' | 'label' | 'icon' | 'tracksRelapses'>[] = [
+  { id: 'wakeUpOnTime', label: 'Wake Up On Time', icon: '🌅' },
+  { id: 'sleepEnough', label: 'Sleep ≥ 7 Hours', icon: '😴' },
+  { id: 'exercise', label: 'Exercise / Walk', icon: '🏃' },
+  { id: 'englishPractice', label: 'English Practice (1hr)', icon: '📖' },
+  { id: 'noPorn', label: 'No Porn', icon: '🛡️', tracksRelapses: true },
+  { id: 'noSocialMedia', label: 'No Social Media', icon: '📵', tracksRelapses: true },
+];
+
+export function createDefaultHabits(createdAt: string): HabitDefinition[] {
+  return DEFAULT_HABITS.map((habit, order) => ({ ...habit, order, createdAt, archivedAt: null }));
+}
+
+export function habitEntryId(habitId: string, date: string): string {
+  return `${habitId}:${date}`;
+}
+
+export function sortHabits(habits: HabitDefinition[]): HabitDefinition[] {
+  return [...habits].sort((a, b) => a.order - b.order);
+}
+
+// A habit counts from the day it was created until the day it was archived
+export function isHabitActiveOn(habit: HabitDefinition, date: string): boolean {
+  return habit.createdAt <= date && (!habit.archivedAt || date < habit.archivedAt);
+}
+
+export type HabitPeriod = 'week' | 'month';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The period a quota applies to, or null for habits that are due on specific days
+export function schedulePeriod(schedule: HabitSchedule | undefined): HabitPeriod | null {
+  if (schedule?.type === 'perWeek') return 'week';
+  if (schedule?.type === 'perMonth') return 'month';
+  return null;
+}
+
+// Whether the habit shows up on a date. Quota habits can be done on any day.
+export function isHabitScheduledOn(habit: HabitDefinition, date: string): boolean {
+  return habit.schedule?.type !== 'weekdays' || habit.schedule.days.includes(getDay(parseISO(date)));
+}
+
+export function formatSchedule(schedule: HabitSchedule | undefined): string {
+  switch (schedule?.type) {
+    case 'weekdays': return [...schedule.days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(d => WEEKDAY_LABELS[d]).join(', ');
+    case 'perWeek': return `${schedule.times}× per week`;
+    case 'perMonth': return `${schedule.times}× per month`;
+    default: return 'Every day';
+  }
+}
+
+function periodBounds(date: Date, period: HabitPeriod): { start: Date; end: Date } {
+  return period === 'week'
+    ? { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) }
+    : { start: startOfMonth(date), end: endOfMonth(date) };
+}
+
+export interface PeriodProgress {
+  start: string;
+  end: string;
+  done: number;
+  // The quota, lowered for periods the habit was only active for part of
+  required: number;
+  rest: boolean;
+}
+
+function progressIn(habit: HabitDefinition, byDate: Map<string, HabitEntry>, start: Date, end: Date, times: number): PeriodProgress {
+  let activeDays = 0;
+  let done = 0;
+  let rest = false;
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    const date = format(day, 'yyyy-MM-dd');
+    if (!isHabitActiveOn(habit, date)) continue;
+    activeDays++;
+    const entry = byDate.get(date);
+    if (entry?.done) done++;
+    else if (entry?.rest) rest = true;
+  }
+  return { start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd'), done, required: Math.min(times, activeDays), rest };
+}
+
+function entriesByDate(habit: HabitDefinition, entries: HabitEntry[]): Map<string, HabitEntry> {
+  return new Map(entries.filter(e => e.habitId === habit.id).map(e => [e.date, e]));
+}
+
+// How far a quota habit is in the week or month around a date; null for other habits
+export function getPeriodProgress(habit: HabitDefinition, entries: HabitEntry[], date: string): PeriodProgress | null {
+  const period = schedulePeriod(habit.schedule);
+  if (!period || !habit.schedule || !('times' in habit.schedule)) return null;
+  const { start, end } = periodBounds(parseISO(date), period);
+  return progressIn(habit, entriesByDate(habit, entries), start, end, habit.schedule.times);
+}
+
+// Days can be backfilled until they fall out of the lock window (null never locks).
+// Future days cannot be recorded yet.
+export function isHabitDayEditable(date: string, today: string, lockDays: number | null): boolean {
+  if (date > today) return false;
+  return lockDays === null || differenceInCalendarDays(parseISO(today), parseISO(date)) <= lockDays;
+}
+
+// Whether a measured value counts as done. The result is stored with the entry, so
+// changing a target later does not rewrite days that were already recorded.
+export function meetsTarget(measure: HabitMeasure, value: number): boolean {
+  return measure.comparison === 'atLeast' ? value >= measure.target : value <= measure.target;
+}
+
+// How far a value is toward the target, from 0 to 1. For limits (atMost) this is
+// how much of the allowance was used, so 1 means the limit was reached.
+export function targetProgress(measure: HabitMeasure, value: number): number {
+  if (measure.target <= 0) return measure.comparison === 'atLeast' || value > 0 ? 1 : 0;
+  return Math.min(1, value / measure.target);
+}
+
+export function formatMeasure(measure: HabitMeasure): string {
+  return `${measure.comparison === 'atLeast' ? '≥' : '≤'} ${measure.target} ${measure.unit}`.trim();
+}
+
+// Measured values of a habit on the given dates, null where nothing was recorded
+export function getHabitValues(entries: HabitEntry[], habitId: string, dates: string[]): (number | null)[] {
+  const byDate = new Map(entries.filter(e => e.habitId === habitId).map(e => [e.date, e.value]));
+  return dates.map(date => byDate.get(date) ?? null);
+}
+
+export interface HabitStreak {
+  current: number;
+  longest: number;
+  // Quota habits count streaks in the periods their quota applies to
+  unit: 'day' | HabitPeriod;
+}
+
+function lastActiveDay(habit: HabitDefinition, today: string): string {
+  return habit.archivedAt && habit.archivedAt <= today
+    ? format(subDays(parseISO(habit.archivedAt), 1), 'yyyy-MM-dd')
+    : today;
+}
+
+// Streaks run over consecutive calendar days: a scheduled day without a check-in
+// breaks them, while rest days and unscheduled days are skipped without adding to
+// the count. Quota habits count consecutive weeks or months in which the quota was
+// met instead. Today, or the period containing it, only breaks the streak once it
+// is over, so it stays open until then.
+export function getHabitStreak(habit: HabitDefinition, entries: HabitEntry[], today: string): HabitStreak {
+  const byDate = entriesByDate(habit, entries);
+  const lastDay = lastActiveDay(habit, today);
+  const period = schedulePeriod(habit.schedule);
+  let current = 0;
+  let longest = 0;
+  const count = (met: boolean, neutral: boolean) => {
+    if (met) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (!neutral) {
+      current = 0;
+    }
+  };
+
+  if (period && habit.schedule && 'times' in habit.schedule) {
+    const step = period === 'week' ? addWeeks : addMonths;
+    for (let start = periodBounds(parseISO(habit.createdAt), period).start; format(start, 'yyyy-MM-dd') <= lastDay; start = step(start, 1)) {
+      const progress = progressIn(habit, byDate, start, periodBounds(start, period).end, habit.schedule.times);
+      count(progress.done >= progress.required, progress.rest || progress.end >= today);
+    }
+    return { current, longest, unit: period };
+  }
+
+  for (let day = parseISO(habit.createdAt); format(day, 'yyyy-MM-dd') <= lastDay; day = addDays(day, 1)) {
+    const date = format(day, 'yyyy-MM-dd');
+    const entry = byDate.get(date);
+    count(!!entry?.done, !!entry?.rest || date === today || !isHabitScheduledOn(habit, date));
+  }
+  return { current, longest, unit: 'day' };
+}
+
+export interface MonthlyCompletion {
+  overall: number;
+  // Percentage per habit id, over the recorded days the habit was due
+  byHabit: Record<string, number>;
+}
+
+// Share of habits done in a month (yyyy-MM). Daily and weekday habits count the
+// recorded days they were due on, so adding or archiving a habit does not rewrite
+// earlier days. Quota habits count the weeks or months starting in the month,
+// where a period still in progress only counts once its quota is met. Rest days
+// count neither for nor against a habit.
+export function getMonthlyCompletion(habits: HabitDefinition[], entries: HabitEntry[], month: string, today: string): MonthlyCompletion {
+  const monthEntries = entries.filter(e => e.date.startsWith(month));
+  const recordedDays = [...new Set(monthEntries.map(e => e.date))];
+  const monthStart = parseISO(`${month}-01`);
+
+  let total = 0;
+  let completed = 0;
+  const byHabit: Record<string, number> = {};
+  habits.forEach(habit => {
+    const byDate = entriesByDate(habit, monthEntries);
+    let due = 0;
+    let done = 0;
+    const period = schedulePeriod(habit.schedule);
+
+    if (period && habit.schedule && 'times' in habit.schedule) {
+      const allByDate = entriesByDate(habit, entries);
+      const step = period === 'week' ? addWeeks : addMonths;
+      let start = period === 'week' ? startOfWeek(monthStart, { weekStartsOn: 1 }) : monthStart;
+      if (start < monthStart) start = addWeeks(start, 1);
+      for (; format(start, 'yyyy-MM') === month && format(start, 'yyyy-MM-dd') <= today; start = step(start, 1)) {
+        const progress = progressIn(habit, allByDate, start, periodBounds(start, period).end, habit.schedule.times);
+        const met = progress.done >= progress.required;
+        if (progress.required === 0 || (!met && (progress.rest || progress.end >= today))) continue;
+        due += progress.required;
+        done += Math.min(progress.done, progress.required);
+      }
+    } else {
+      recordedDays.forEach(date => {
+        if (!isHabitActiveOn(habit, date) || !isHabitScheduledOn(habit, date) || byDate.get(date)?.rest) return;
+        due++;
+        if (byDate.get(date)?.done) done++;
+      });
+    }
+
+    if (due === 0) return;
+    total += due;
+    completed += done;
+    byHabit[habit.id] = Math.round((done / due) * 100);
+  });
+
+  return { overall: total > 0 ? Math.round((completed / total) * 100) : 0, byHabit };
+}
+
+// off: not active yet or anymore, not due that day, in the future, or a day of a
+// quota habit without a check-in (those are judged per week or month instead)
+export type HabitDayStatus = 'done' | 'missed' | 'rest' | 'open' | 'off';
+
+export function getHabitDayStatus(habit: HabitDefinition, entry: HabitEntry | undefined, date: string, today: string): HabitDayStatus {
+  if (!isHabitActiveOn(habit, date) || date > today) return 'off';
+  if (entry?.done) return 'done';
+  if (entry?.rest) return 'rest';
+  if (!isHabitScheduledOn(habit, date) || schedulePeriod(habit.schedule)) return 'off';
+  return date === today ? 'open' : 'missed';
+}
+
+// Status of every given habit on every given date, keyed by date
+export function getHabitDayStatuses(habits: HabitDefinition[], entries: HabitEntry[], dates: string[], today: string): Map<string, HabitDayStatus[]> {
+  const byHabit = new Map(habits.map(h => [h.id, entriesByDate(h, entries)]));
+  return new Map(dates.map(date => [date, habits.map(h => getHabitDayStatus(h, byHabit.get(h.id)?.get(date), date, today))]));
+}
+
+// The weekday (0 for Sunday) with the most missed days over the habits' whole history
+export function getMostMissedWeekday(habits: HabitDefinition[], entries: HabitEntry[], today: string): { day: number; misses: number } | null {
+  const misses = [0, 0, 0, 0, 0, 0, 0];
+  habits.forEach(habit => {
+    const byDate = entriesByDate(habit, entries);
+    const lastDay = lastActiveDay(habit, today);
+    for (let day = parseISO(habit.createdAt); format(day, 'yyyy-MM-dd') <= lastDay; day = addDays(day, 1)) {
+      const date = format(day, 'yyyy-MM-dd');
+      if (getHabitDayStatus(habit, byDate.get(date), date, today) === 'missed') misses[getDay(day)]++;
+    }
+  });
+  const most = Math.max(...misses);
+  return most > 0 ? { day: misses.indexOf(most), misses: most } : null;
+}
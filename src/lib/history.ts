@@ -0,0 +1,79 @@
+import { DataStoreName, STORE_KEYS, StoreRecords } from '@/lib/storage';
+
+// Undo history for tracker data. Every mutation is recorded as the records it changed,
+// before and after, so undoing touches only those records and leaves changes made
+// meanwhile to other records (e.g. from another tab) alone.
+
+export type RecordEdit = {
+  [K in DataStoreName]: { store: K; key: string; before: StoreRecords[K] | null; after: StoreRecords[K] | null };
+}[DataStoreName];
+
+export interface TrackerCommand {
+  label: string;
+  edits: RecordEdit[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export interface History {
+  undo: TrackerCommand[];
+  redo: TrackerCommand[];
+}
+
+export const EMPTY_HISTORY: History = { undo: [], redo: [] };
+
+export function invertCommand(command: TrackerCommand): TrackerCommand {
+  return {
+    label: command.label,
+    edits: [...command.edits].reverse().map(edit => ({ ...edit, before: edit.after, after: edit.before }) as RecordEdit),
+  };
+}
+
+// Edits turning one version of a store into another, e.g. for a whole-store import
+export function editsBetween<K extends DataStoreName>(store: K, prev: StoreRecords[K][], next: StoreRecords[K][]): RecordEdit[] {
+  const keyField = STORE_KEYS[store];
+  const prevByKey = new Map(prev.map(r => [String(r[keyField]), r]));
+  const nextByKey = new Map(next.map(r => [String(r[keyField]), r]));
+  const edits: RecordEdit[] = [];
+  nextByKey.forEach((after, key) => {
+    const before = prevByKey.get(key) ?? null;
+    if (before !== after) edits.push({ store, key, before, after } as RecordEdit);
+  });
+  prevByKey.forEach((before, key) => {
+    if (!nextByKey.has(key)) edits.push({ store, key, before, after: null } as RecordEdit);
+  });
+  return edits;
+}
+
+// Groups a command's edits into per-store changes in the shape applyRecordChanges takes
+export function changesByStore(command: TrackerCommand) {
+  const changes: { [K in DataStoreName]: { put: StoreRecords[K][]; delete: string[] } } = {
+    sessions: { put: [], delete: [] },
+    habitDefinitions: { put: [], delete: [] },
+    habitEntries: { put: [], delete: [] },
+    targets: { put: [], delete: [] },
+  };
+  command.edits.forEach(edit => {
+    const target = changes[edit.store] as { put: unknown[]; delete: string[] };
+    if (edit.after === null) target.delete.push(edit.key);
+    else target.put.push(edit.after);
+  });
+  return changes;
+}
+
+export function recordCommand(history: History, command: TrackerCommand): History {
+  if (command.edits.length === 0) return history;
+  // A new change makes the undone ones unreachable
+  return { undo: [...history.undo, command].slice(-HISTORY_LIMIT), redo: [] };
+}
+
+// Drops edits to records deleted for good outside the history, e.g. trash emptied after
+// the retention period, so undo and redo cannot bring them back. Commands left empty go too.
+export function forgetRecords(history: History, store: DataStoreName, keys: string[]): History {
+  if (keys.length === 0) return history;
+  const forgotten = new Set(keys);
+  const prune = (commands: TrackerCommand[]) => commands
+    .map(command => ({ ...command, edits: command.edits.filter(edit => edit.store !== store || !forgotten.has(edit.key)) }))
+    .filter(command => command.edits.length > 0);
+  return { undo: prune(history.undo), redo: prune(history.redo) };
+}
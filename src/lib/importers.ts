@@ -0,0 +1,178 @@
+import { addMinutes, differenceInMinutes, format, isValid, parseISO } from 'date-fns';
+import { MAX_OVERNIGHT_MINUTES } from '@/lib/sessionTime';
+import { detectFormats, ImportRow, parseWith } from '@/lib/sessionCsv';
+
+// Importers for other trackers' CSV exports. Every session gets an id derived from the
+// source entry, so importing the same export twice finds the earlier copies as duplicates.
+
+export type ImportSource = 'toggl' | 'clockify' | 'forest';
+
+export interface ExternalImport {
+  rows: ImportRow[];
+  errors: { row: number; message: string }[];
+}
+
+export interface SessionImporter {
+  source: ImportSource;
+  name: string;
+  // Columns the export must contain, compared case-insensitively
+  requiredHeaders: string[];
+  read: (records: Record<string, string>[]) => ExternalImport;
+}
+
+// FNV-1a; stable across runs and browsers, which is all the ids need
+function hash(value: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+function addEntry(
+  result: ExternalImport,
+  row: number,
+  source: ImportSource,
+  entry: { start: Date; minutes: number; subject: string; notes: string; sourceKey: string },
+) {
+  const minutes = Math.round(entry.minutes);
+  if (minutes <= 0) {
+    result.errors.push({ row, message: 'Entry has no duration.' });
+    return;
+  }
+  if (minutes > MAX_OVERNIGHT_MINUTES) {
+    result.errors.push({ row, message: 'Entries longer than 12 hours cannot be imported.' });
+    return;
+  }
+  const { start } = entry;
+  result.rows.push({
+    row,
+    input: {
+      id: `${source}-${hash(`${format(start, "yyyy-MM-dd'T'HH:mm:ss")}|${entry.sourceKey}`)}`,
+      date: format(start, 'yyyy-MM-dd'),
+      subject: entry.subject,
+      startTime: format(start, 'HH:mm'),
+      endTime: format(addMinutes(start, minutes), 'HH:mm'),
+      durationMinutes: minutes,
+      focusQuality: 3,
+      distractionCount: 0,
+      energyLevel: 'medium',
+      notes: entry.notes,
+    },
+  });
+}
+
+// "01:30:00" or "1:30" as minutes
+function clockToMinutes(value: string): number | null {
+  const match = value.trim().match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]) + Number(match[3] ?? 0) / 60;
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy'];
+const TIME_FORMATS = ['HH:mm:ss', 'HH:mm', 'h:mm:ss a', 'h:mm a'];
+
+// Toggl and Clockify detailed reports share a layout: date and time columns per entry,
+// a project, a free-text description and comma separated tags
+function readTimeReport(source: ImportSource, records: Record<string, string>[]): ExternalImport {
+  const result: ExternalImport = { rows: [], errors: [] };
+  const dateFormat = detectFormats(records.map(r => r['start date']), DATE_FORMATS)[0];
+  const timeFormat = detectFormats(records.map(r => r['start time']), TIME_FORMATS)[0];
+
+  records.forEach((record, i) => {
+    const row = i + 2;
+    const start = dateFormat && timeFormat
+      ? parseWith(`${record['start date']} ${record['start time']}`, `${dateFormat} ${timeFormat}`)
+      : null;
+    if (!start) {
+      result.errors.push({ row, message: `Unrecognised start "${record['start date']} ${record['start time']}".` });
+      return;
+    }
+
+    const end = dateFormat && timeFormat && record['end date']
+      ? parseWith(`${record['end date']} ${record['end time']}`, `${dateFormat} ${timeFormat}`)
+      : null;
+    // Clockify also writes decimal hours; prefer the explicit duration over the end time
+    const decimalHours = Number(record['duration (decimal)']);
+    const minutes = clockToMinutes(record['duration'] ?? record['duration (h)'] ?? '')
+      ?? (record['duration (decimal)'] && !isNaN(decimalHours) ? decimalHours * 60 : null)
+      ?? (end ? differenceInMinutes(end, start) : null);
+    const project = record['project']?.trim() ?? '';
+    const description = record['description']?.trim() ?? '';
+    const tags = record['tags']?.trim() ?? '';
+    const subject = project || description || 'Untitled';
+    const notes = [project ? description : '', tags && `Tags: ${tags}`].filter(Boolean).join(' · ');
+    addEntry(result, row, source, { start, minutes: minutes ?? 0, subject, notes, sourceKey: `${project}|${description}` });
+  });
+
+  return result;
+}
+
+// Forest writes JavaScript date strings, e.g. "Sat Mar 14 2026 09:00:00 GMT+0100"
+function parseForestDate(value: string): Date | null {
+  const iso = parseISO(value);
+  if (isValid(iso)) return iso;
+  const loose = new Date(value);
+  return isValid(loose) ? loose : null;
+}
+
+function readForest(records: Record<string, string>[]): ExternalImport {
+  const result: ExternalImport = { rows: [], errors: [] };
+  records.forEach((record, i) => {
+    const row = i + 2;
+    if (record['is success']?.toLowerCase() === 'false') {
+      result.errors.push({ row, message: 'Withered tree (session given up), skipped.' });
+      return;
+    }
+    const start = parseForestDate(record['start time']);
+    const end = parseForestDate(record['end time']);
+    if (!start || !end || end <= start) {
+      result.errors.push({ row, message: `Unrecognised times "${record['start time']}" → "${record['end time']}".` });
+      return;
+    }
+    const tag = record['tag']?.trim() ?? '';
+    const note = record['note']?.trim() ?? '';
+    addEntry(result, row, 'forest', {
+      start,
+      minutes: differenceInMinutes(end, start),
+      subject: tag || note || 'Forest',
+      notes: tag ? note : '',
+      sourceKey: `${tag}|${note}`,
+    });
+  });
+  return result;
+}
+
+export const IMPORTERS: SessionImporter[] = [
+  {
+    source: 'toggl',
+    name: 'Toggl Track',
+    requiredHeaders: ['description', 'start date', 'start time', 'duration'],
+    read: records => readTimeReport('toggl', records),
+  },
+  {
+    source: 'clockify',
+    name: 'Clockify',
+    requiredHeaders: ['description', 'start date', 'start time', 'duration (h)'],
+    read: records => readTimeReport('clockify', records),
+  },
+  {
+    source: 'forest',
+    name: 'Forest',
+    requiredHeaders: ['start time', 'end time', 'tag', 'note'],
+    read: readForest,
+  },
+];
+
+export function detectImporter(headers: string[]): SessionImporter | null {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  return IMPORTERS.find(importer => importer.requiredHeaders.every(h => normalized.includes(h))) ?? null;
+}
+
+// Rows are a parsed CSV file including its header row
+export function readExternalExport(importer: SessionImporter, rows: string[][]): ExternalImport {
+  const headers = rows[0].map(h => h.trim().toLowerCase());
+  const records = rows.slice(1).map(cells => Object.fromEntries(headers.map((h, i) => [h, (cells[i] ?? '').trim()])));
+  return importer.read(records);
+}
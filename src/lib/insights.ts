@@ -0,0 +1,143 @@
+import { addDays, eachDayOfInterval, endOfDay, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { HabitDefinition, HabitEntry, StudySession } from '@/lib/types';
+import { habitEntryId, isHabitActiveOn, isHabitScheduledOn } from '@/lib/habits';
+import { minutesWithin } from '@/lib/sessionTime';
+
+export type InsightMetric = 'hours' | 'focusQuality' | 'distractionCount';
+
+// Whether a habit is compared with the deep work of the same day or of the day after
+export type InsightLag = 'sameDay' | 'nextDay';
+
+export const INSIGHT_METRICS: InsightMetric[] = ['hours', 'focusQuality', 'distractionCount'];
+
+// With fewer days than this on either side the difference is mostly noise
+export const MIN_INSIGHT_SAMPLES = 5;
+
+export interface HabitEffect {
+  metric: InsightMetric;
+  lag: InsightLag;
+  doneMean: number | null;
+  skippedMean: number | null;
+  difference: number | null; // doneMean - skippedMean
+  // Cohen's d: the difference in pooled standard deviations, null without enough samples
+  effectSize: number | null;
+  doneDays: number;
+  skippedDays: number;
+}
+
+export interface HabitInsight {
+  habitId: string;
+  effects: HabitEffect[];
+}
+
+interface DayOutcome {
+  minutes: number;
+  sessions: number;
+  focusTotal: number;
+  distractions: number;
+}
+
+// Minutes count toward every day they were worked on; focus and distractions
+// toward the day a session is listed on
+function dailyOutcomes(sessions: StudySession[]): Map<string, DayOutcome> {
+  const days = new Map<string, DayOutcome>();
+  const dayOf = (date: string) => {
+    let day = days.get(date);
+    if (!day) {
+      day = { minutes: 0, sessions: 0, focusTotal: 0, distractions: 0 };
+      days.set(date, day);
+    }
+    return day;
+  };
+  sessions.forEach(s => {
+    if (s.endAt > s.startAt) {
+      eachDayOfInterval({ start: parseISO(s.startAt), end: parseISO(s.endAt) }).forEach(d => {
+        dayOf(format(d, 'yyyy-MM-dd')).minutes += minutesWithin(s, startOfDay(d), endOfDay(d));
+      });
+    }
+    const day = dayOf(s.date);
+    day.sessions++;
+    day.focusTotal += s.focusQuality;
+    day.distractions += s.distractionCount;
+  });
+  return days;
+}
+
+// Days without sessions are zero hours, but have no focus or distractions to average
+function metricValue(day: DayOutcome | undefined, metric: InsightMetric): number | null {
+  if (metric === 'hours') return (day?.minutes ?? 0) / 60;
+  if (!day?.sessions) return null;
+  return (metric === 'focusQuality' ? day.focusTotal : day.distractions) / day.sessions;
+}
+
+// Done days count against due days that were skipped; rest days and days the
+// habit was not due say nothing either way
+function habitOutcome(habit: HabitDefinition, entry: HabitEntry | undefined, date: string): boolean | null {
+  if (!isHabitActiveOn(habit, date)) return null;
+  if (entry?.done) return true;
+  if (entry?.rest || !isHabitScheduledOn(habit, date)) return null;
+  return false;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : null;
+}
+
+function variance(values: number[], avg: number): number {
+  return values.reduce((s, v) => s + (v - avg) ** 2, 0) / (values.length - 1);
+}
+
+function compareSamples(done: number[], skipped: number[]): Pick<HabitEffect, 'doneMean' | 'skippedMean' | 'difference' | 'effectSize'> {
+  const doneMean = mean(done);
+  const skippedMean = mean(skipped);
+  if (doneMean === null || skippedMean === null) return { doneMean, skippedMean, difference: null, effectSize: null };
+  const difference = doneMean - skippedMean;
+  if (done.length < MIN_INSIGHT_SAMPLES || skipped.length < MIN_INSIGHT_SAMPLES) return { doneMean, skippedMean, difference, effectSize: null };
+  const pooled = Math.sqrt(
+    ((done.length - 1) * variance(done, doneMean) + (skipped.length - 1) * variance(skipped, skippedMean))
+    / (done.length + skipped.length - 2),
+  );
+  return { doneMean, skippedMean, difference, effectSize: pooled > 0 ? difference / pooled : 0 };
+}
+
+type Samples = Record<InsightLag, Record<InsightMetric, { done: number[]; skipped: number[] }>>;
+
+function emptySamples(): Samples {
+  const byMetric = () => Object.fromEntries(INSIGHT_METRICS.map(m => [m, { done: [], skipped: [] }])) as Samples[InsightLag];
+  return { sameDay: byMetric(), nextDay: byMetric() };
+}
+
+// How deep work differs between days each habit was done and days it was skipped.
+// Only finished days from the first logged session on count, so the time before
+// sessions were tracked does not look like days without any deep work.
+export function getHabitInsights(habits: HabitDefinition[], entries: HabitEntry[], sessions: StudySession[], today: string): HabitInsight[] {
+  const outcomes = dailyOutcomes(sessions);
+  const firstSession = sessions.reduce<string | null>((first, s) => (first === null || s.date < first ? s.date : first), null);
+  const lastDay = format(subDays(parseISO(today), 1), 'yyyy-MM-dd');
+  const byKey = new Map(entries.map(e => [habitEntryId(e.habitId, e.date), e]));
+
+  return habits.map(habit => {
+    const samples = emptySamples();
+    const start = firstSession && firstSession > habit.createdAt ? firstSession : habit.createdAt;
+    if (firstSession) {
+      for (let day = parseISO(start); format(day, 'yyyy-MM-dd') <= lastDay; day = addDays(day, 1)) {
+        const date = format(day, 'yyyy-MM-dd');
+        const outcome = habitOutcome(habit, byKey.get(habitEntryId(habit.id, date)), date);
+        if (outcome === null) continue;
+        const nextDate = format(addDays(day, 1), 'yyyy-MM-dd');
+        INSIGHT_METRICS.forEach(metric => {
+          const sameDay = metricValue(outcomes.get(date), metric);
+          if (sameDay !== null) samples.sameDay[metric][outcome ? 'done' : 'skipped'].push(sameDay);
+          const nextDay = nextDate <= lastDay ? metricValue(outcomes.get(nextDate), metric) : null;
+          if (nextDay !== null) samples.nextDay[metric][outcome ? 'done' : 'skipped'].push(nextDay);
+        });
+      }
+    }
+
+    const effects = (['sameDay', 'nextDay'] as const).flatMap(lag => INSIGHT_METRICS.map(metric => {
+      const { done, skipped } = samples[lag][metric];
+      return { metric, lag, ...compareSamples(done, skipped), doneDays: done.length, skippedDays: skipped.length };
+    }));
+    return { habitId: habit.id, effects };
+  });
+}
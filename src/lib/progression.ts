@@ -0,0 +1,206 @@
+import { addWeeks, differenceInCalendarWeeks, endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { z } from 'zod';
+import { ProgressionRules, StudySession, WeeklyTarget } from '@/lib/types';
+import { minutesWithin } from '@/lib/sessionTime';
+import { PLAUSIBLE_DAILY_MINUTES } from '@/lib/sessionValidation';
+
+export const DEFAULT_PROGRESSION_RULES: ProgressionRules = {
+  startHours: 5,
+  increment: 0.5,
+  decrement: 0,
+  ceiling: 10,
+  deloadEvery: null,
+};
+
+// Reducing after misses never takes the target below this
+export const MIN_TARGET_HOURS = 0.5;
+// No target can ask for more deep work than a day plausibly holds
+export const MAX_TARGET_HOURS = PLAUSIBLE_DAILY_MINUTES / 60;
+// Share of the usual target a deload week asks for
+export const DELOAD_FACTOR = 0.7;
+
+const hours = z.number().min(MIN_TARGET_HOURS).max(MAX_TARGET_HOURS);
+
+export const progressionRulesSchema = z.object({
+  startHours: hours,
+  increment: z.number().min(0).max(MAX_TARGET_HOURS),
+  decrement: z.number().min(0).max(MAX_TARGET_HOURS),
+  ceiling: hours,
+  deloadEvery: z.number().int().min(2).nullable(),
+}).refine(rules => rules.ceiling >= rules.startHours, { message: 'cannot be below the starting target', path: ['ceiling'] });
+
+export function weekStartOf(date: Date): string {
+  return format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+}
+
+function roundHours(hours: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(hours * factor) / factor;
+}
+
+// Deep work inside a Monday-to-Sunday week, counting only the part of
+// overnight sessions that falls inside it
+export function weeklyHours(sessions: StudySession[], weekStart: string): number {
+  const start = parseISO(weekStart);
+  const end = endOfWeek(start, { weekStartsOn: 1 });
+  return sessions.reduce((sum, s) => sum + minutesWithin(s, start, end), 0) / 60;
+}
+
+// Deep work of every week with any, keyed by week start. One pass over the sessions,
+// for callers that need many weeks; an overnight session can touch two weeks.
+export function hoursByWeek(sessions: StudySession[]): Map<string, number> {
+  const minutes = new Map<string, number>();
+  sessions.forEach(s => {
+    const weeks = new Set([weekStartOf(parseISO(s.startAt)), weekStartOf(parseISO(s.endAt))]);
+    weeks.forEach(weekStart => {
+      const start = parseISO(weekStart);
+      const inWeek = minutesWithin(s, start, endOfWeek(start, { weekStartsOn: 1 }));
+      minutes.set(weekStart, (minutes.get(weekStart) ?? 0) + inWeek);
+    });
+  });
+  return new Map([...minutes].map(([weekStart, total]) => [weekStart, total / 60]));
+}
+
+// Records how a finished week went. The target is per day, so the week is met
+// once its total reaches seven times the target.
+export function closeWeek(target: WeeklyTarget, sessions: StudySession[], now = new Date()): WeeklyTarget {
+  return recordWeek(target, weeklyHours(sessions, target.weekStart), now);
+}
+
+function recordWeek(target: WeeklyTarget, total: number, now: Date): WeeklyTarget {
+  return {
+    ...target,
+    actualHours: roundHours(total / 7, 2),
+    met: total >= target.targetHours * 7,
+    closedAt: now.toISOString(),
+  };
+}
+
+// A week set by hand is met against its own target, but progression carries on from
+// the target it had planned, so an easy exam week does not reset it
+export function nextTargetHours(closed: WeeklyTarget, rules: ProgressionRules): number {
+  const base = closed.plannedHours ?? closed.targetHours;
+  const next = closed.met ? base + rules.increment : base - rules.decrement;
+  return roundHours(Math.min(Math.max(next, MIN_TARGET_HOURS), rules.ceiling));
+}
+
+// Deload weeks fall on every Nth week counted from the first week with a target
+export function isDeloadWeek(weekStart: string, firstWeek: string, rules: ProgressionRules): boolean {
+  if (!rules.deloadEvery) return false;
+  const week = differenceInCalendarWeeks(parseISO(weekStart), parseISO(firstWeek), { weekStartsOn: 1 }) + 1;
+  return week % rules.deloadEvery === 0;
+}
+
+// The week after a deload week picks up the target it lowered, whether or not it was met
+function plannedWeek(previous: WeeklyTarget, weekStart: string, firstWeek: string, rules: ProgressionRules): WeeklyTarget {
+  const targetHours = previous.deloadFrom !== undefined
+    ? Math.min(previous.deloadFrom, rules.ceiling)
+    : nextTargetHours(previous, rules);
+  if (!isDeloadWeek(weekStart, firstWeek, rules)) return { weekStart, targetHours, actualHours: 0, met: false };
+  return {
+    weekStart,
+    targetHours: roundHours(Math.max(targetHours * DELOAD_FACTOR, MIN_TARGET_HOURS)),
+    actualHours: 0,
+    met: false,
+    deloadFrom: targetHours,
+  };
+}
+
+// Plans an existing week again after the week before it turned out differently. A
+// target set by hand stays; only the planned target behind it moves.
+function replanWeek(week: WeeklyTarget, previous: WeeklyTarget, firstWeek: string, rules: ProgressionRules): WeeklyTarget {
+  const { targetHours, deloadFrom } = plannedWeek(previous, week.weekStart, firstWeek, rules);
+  const replanned: WeeklyTarget = week.plannedHours !== undefined ? { ...week, plannedHours: targetHours } : { ...week, targetHours };
+  if (deloadFrom !== undefined) replanned.deloadFrom = deloadFrom;
+  return replanned;
+}
+
+// Closes every finished week that is still open and creates the weeks up to the
+// current one, including weeks the app was not opened in. Each new week's target
+// follows from how the week before it went. Returns only the records that changed.
+//
+// Closed weeks are recounted as well, since sessions can still land in them: a
+// Sunday evening logged on Monday, or an edit, import or delete later on. When
+// last week's outcome changes, the current week is planned again.
+export function advanceProgression(
+  targets: WeeklyTarget[],
+  sessions: StudySession[],
+  rules: ProgressionRules,
+  now = new Date(),
+): WeeklyTarget[] {
+  const currentWeek = weekStartOf(now);
+  const sorted = [...targets].sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+  if (sorted.length === 0) {
+    return [{ weekStart: currentWeek, targetHours: rules.startHours, actualHours: 0, met: false }];
+  }
+
+  const weekHours = hoursByWeek(sessions);
+  const close = (target: WeeklyTarget) => recordWeek(target, weekHours.get(target.weekStart) ?? 0, now);
+  const updates: WeeklyTarget[] = [];
+  for (const target of sorted.filter(t => t.weekStart < currentWeek)) {
+    const closed = close(target);
+    if (!target.closedAt) updates.push(closed);
+    else if (closed.actualHours !== target.actualHours || closed.met !== target.met) updates.push({ ...closed, closedAt: target.closedAt });
+  }
+  const closedByWeek = new Map(updates.map(t => [t.weekStart, t]));
+
+  const firstWeek = sorted[0].weekStart;
+  const latest = sorted[sorted.length - 1];
+  const lastWeek = sorted[sorted.length - 2];
+  const recounted = lastWeek && closedByWeek.get(lastWeek.weekStart);
+  if (latest.weekStart === currentWeek && recounted && lastWeek.closedAt && recounted.met !== lastWeek.met
+    && format(addWeeks(parseISO(lastWeek.weekStart), 1), 'yyyy-MM-dd') === currentWeek) {
+    updates.push(replanWeek(latest, recounted, firstWeek, rules));
+  }
+
+  let previous = closedByWeek.get(latest.weekStart) ?? latest;
+  for (let week = addWeeks(parseISO(previous.weekStart), 1); format(week, 'yyyy-MM-dd') <= currentWeek; week = addWeeks(week, 1)) {
+    const weekStart = format(week, 'yyyy-MM-dd');
+    const created = plannedWeek(previous, weekStart, firstWeek, rules);
+    previous = weekStart < currentWeek ? close(created) : created;
+    updates.push(previous);
+  }
+  return updates;
+}
+
+export interface WeekProgress {
+  totalHours: number;
+  goalHours: number;
+  percent: number;
+  daysLeft: number; // including today
+  neededPerDay: number; // to still meet the target over the days left
+}
+
+export function getWeekProgress(target: WeeklyTarget, sessions: StudySession[], now = new Date()): WeekProgress {
+  const totalHours = weeklyHours(sessions, target.weekStart);
+  const goalHours = target.targetHours * 7;
+  const daysLeft = 7 - ((now.getDay() + 6) % 7);
+  return {
+    totalHours: roundHours(totalHours),
+    goalHours,
+    percent: Math.min(100, Math.round((totalHours / goalHours) * 100)),
+    daysLeft,
+    neededPerDay: roundHours(Math.max(0, goalHours - totalHours) / daysLeft),
+  };
+}
+
+function formatHours(hours: number): string {
+  return hours < 1 ? `${Math.round(hours * 60)} minutes` : `${hours} hour${hours !== 1 ? 's' : ''}`;
+}
+
+// The rules in plain words, for the Progression tab
+export function describeProgression(rules: ProgressionRules): string[] {
+  return [
+    `Your target starts at ${formatHours(rules.startHours)} a day.`,
+    rules.increment > 0
+      ? `When a week ends with the target met, it goes up by ${formatHours(rules.increment)}.`
+      : 'Meeting the target keeps it where it is.',
+    rules.decrement > 0
+      ? `A missed week lowers it by ${formatHours(rules.decrement)}, to no less than ${formatHours(MIN_TARGET_HOURS)}.`
+      : 'A missed week keeps the target where it is.',
+    `The target never goes above ${formatHours(rules.ceiling)} a day.`,
+    ...(rules.deloadEvery
+      ? [`Every ${rules.deloadEvery} weeks, a deload week asks for ${Math.round(DELOAD_FACTOR * 100)}% of the target; the week after picks up where it left off.`]
+      : []),
+  ];
+}
@@ -0,0 +1,79 @@
+import { getDay, parseISO } from 'date-fns';
+import { HabitEntry, RelapseLog, RelapseTrigger } from '@/lib/types';
+
+export const RELAPSE_TRIGGERS: Record<RelapseTrigger, string> = {
+  boredom: 'Boredom',
+  stress: 'Stress',
+  loneliness: 'Loneliness',
+  tiredness: 'Tiredness',
+  social: 'Social pressure',
+  environment: 'Place or cue',
+  other: 'Other',
+};
+
+// Mood before the relapse, from 1 (very low) to 5 (very good)
+export const RELAPSE_MOODS = ['😞', '🙁', '😐', '🙂', '😄'];
+
+export type TimeOfDay = 'night' | 'morning' | 'afternoon' | 'evening';
+
+// In day order, each starting at the given hour
+export const TIMES_OF_DAY: { id: TimeOfDay; label: string; fromHour: number }[] = [
+  { id: 'night', label: 'Night', fromHour: 0 },
+  { id: 'morning', label: 'Morning', fromHour: 6 },
+  { id: 'afternoon', label: 'Afternoon', fromHour: 12 },
+  { id: 'evening', label: 'Evening', fromHour: 18 },
+];
+
+export function timeOfDay(time: string): TimeOfDay {
+  const hour = Number(time.slice(0, 2));
+  return [...TIMES_OF_DAY].reverse().find(t => hour >= t.fromHour)?.id ?? 'night';
+}
+
+// Check-ins replace the whole entry, but relapses already logged stay in the journal.
+// A day with a relapse is never done, whatever the check-in says.
+export function keepRelapses(after: HabitEntry | null, existing: HabitEntry | null): HabitEntry | null {
+  if (!existing?.relapses?.length) return after;
+  const base = after ?? { id: existing.id, habitId: existing.habitId, date: existing.date, done: false };
+  return { ...base, done: false, relapses: existing.relapses };
+}
+
+export interface RelapseRecord extends RelapseLog {
+  habitId: string;
+  date: string;
+}
+
+// Every relapse logged for the given habits, newest first
+export function listRelapses(entries: HabitEntry[], habitIds: string[]): RelapseRecord[] {
+  return entries
+    .filter(e => e.relapses?.length && habitIds.includes(e.habitId))
+    .flatMap(e => (e.relapses ?? []).map(r => ({ ...r, habitId: e.habitId, date: e.date })))
+    .sort((a, b) => `${b.date}T${b.time}`.localeCompare(`${a.date}T${a.time}`));
+}
+
+export interface RelapseStats {
+  total: number;
+  triggers: { trigger: RelapseTrigger; count: number }[]; // most common first, only those that occurred
+  timesOfDay: { time: TimeOfDay; count: number }[]; // every time of day, in day order
+  weekdays: number[]; // counts indexed by getDay, 0 for Sunday
+  averageMood: number | null;
+}
+
+export function getRelapseStats(relapses: RelapseRecord[]): RelapseStats {
+  const triggers = new Map<RelapseTrigger, number>();
+  const times = new Map<TimeOfDay, number>();
+  const weekdays = [0, 0, 0, 0, 0, 0, 0];
+  relapses.forEach(r => {
+    triggers.set(r.trigger, (triggers.get(r.trigger) ?? 0) + 1);
+    times.set(timeOfDay(r.time), (times.get(timeOfDay(r.time)) ?? 0) + 1);
+    weekdays[getDay(parseISO(r.date))]++;
+  });
+  return {
+    total: relapses.length,
+    triggers: [...triggers].map(([trigger, count]) => ({ trigger, count })).sort((a, b) => b.count - a.count),
+    timesOfDay: TIMES_OF_DAY.map(t => ({ time: t.id, count: times.get(t.id) ?? 0 })),
+    weekdays,
+    averageMood: relapses.length > 0
+      ? Math.round(relapses.reduce((s, r) => s + r.mood, 0) / relapses.length * 10) / 10
+      : null,
+  };
+}
@@ -0,0 +1,189 @@
+import { format, isValid, parse } from 'date-fns';
+import { EnergyLevel, NewSessionInput, StudySession } from '@/lib/types';
+import { prepareSession } from '@/lib/sessionValidation';
+import { toCsv } from '@/lib/csv';
+
+export const SESSION_CSV_FIELDS = [
+  'id', 'date', 'subject', 'startTime', 'endTime', 'durationMinutes',
+  'focusQuality', 'distractionCount', 'energyLevel', 'notes',
+] as const;
+
+export type SessionCsvField = typeof SESSION_CSV_FIELDS[number];
+
+export const REQUIRED_CSV_FIELDS: SessionCsvField[] = ['date', 'subject', 'startTime', 'endTime'];
+
+export interface SessionExportFilter {
+  from?: string;
+  to?: string;
+  // Empty means every subject
+  subjects?: string[];
+}
+
+export function filterSessions(sessions: StudySession[], filter: SessionExportFilter): StudySession[] {
+  return sessions.filter(s =>
+    (!filter.from || s.date >= filter.from) &&
+    (!filter.to || s.date <= filter.to) &&
+    (!filter.subjects?.length || filter.subjects.includes(s.subject)),
+  );
+}
+
+export function sessionsToCsv(sessions: StudySession[]): string {
+  const sorted = [...sessions].sort((a, b) => a.startAt.localeCompare(b.startAt));
+  return toCsv([
+    [...SESSION_CSV_FIELDS],
+    ...sorted.map(s => SESSION_CSV_FIELDS.map(field => s[field])),
+  ]);
+}
+
+export type ColumnMapping = Partial<Record<SessionCsvField, number>>;
+
+const HEADER_ALIASES: Record<SessionCsvField, string[]> = {
+  id: ['id', 'sessionid'],
+  date: ['date', 'day', 'startdate'],
+  subject: ['subject', 'task', 'project', 'description', 'title'],
+  startTime: ['starttime', 'start', 'from', 'begin'],
+  endTime: ['endtime', 'end', 'to', 'finish', 'stop'],
+  durationMinutes: ['durationminutes', 'duration', 'minutes', 'durationmin'],
+  focusQuality: ['focusquality', 'focus', 'quality', 'rating'],
+  distractionCount: ['distractioncount', 'distractions', 'interruptions'],
+  energyLevel: ['energylevel', 'energy'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  SESSION_CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+}
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'yyyy/MM/dd'];
+export const TIME_FORMATS = ['HH:mm', 'HH:mm:ss', 'h:mm a', 'h:mma'];
+
+export function parseWith(value: string, pattern: string): Date | null {
+  const parsed = parse(value, pattern, new Date());
+  return isValid(parsed) ? parsed : null;
+}
+
+// Every format that reads all the sample values; more than one means the column is ambiguous (e.g. 03/04/2026)
+export function detectFormats(values: string[], formats: string[]): string[] {
+  const samples = values.map(v => v.trim()).filter(Boolean);
+  if (samples.length === 0) return [];
+  return formats.filter(pattern => samples.every(v => parseWith(v, pattern)));
+}
+
+export interface CsvFormats {
+  date: string;
+  time: string;
+}
+
+export interface CsvImportReport {
+  ready: { row: number; input: NewSessionInput; warnings: string[] }[];
+  duplicates: { row: number; id: string }[];
+  errors: { row: number; message: string }[];
+}
+
+const ENERGY_LEVELS: EnergyLevel[] = ['low', 'medium', 'high'];
+
+function parseInteger(value: string, fallback: number): number {
+  return value === '' ? fallback : Number(value);
+}
+
+export interface ImportRow {
+  row: number;
+  input: NewSessionInput;
+}
+
+// Dry run: checks every row against existing sessions and the rows before it, without saving anything.
+// Rows whose id already exists are duplicates, which makes re-importing the same file a no-op.
+// Existing sessions include trashed ones, so a re-import does not bring back what was deleted.
+export function planSessionImport(
+  rows: ImportRow[],
+  existing: StudySession[],
+  now = new Date(),
+  report: CsvImportReport = { ready: [], duplicates: [], errors: [] },
+): CsvImportReport {
+  const accepted: StudySession[] = [];
+  const seenIds = new Set(existing.map(s => s.id));
+
+  rows.forEach(({ row, input }) => {
+    if (input.id && seenIds.has(input.id)) {
+      report.duplicates.push({ row, id: input.id });
+      return;
+    }
+    const checked = prepareSession(input, [...existing, ...accepted], {}, now);
+    if ('error' in checked) {
+      report.errors.push({ row, message: checked.error });
+      return;
+    }
+    const warnings = 'warnings' in checked ? checked.warnings : [];
+    const confirmed = 'session' in checked ? checked : prepareSession(input, [...existing, ...accepted], { confirmWarnings: true }, now);
+    if ('session' in confirmed) accepted.push(confirmed.session);
+    if (input.id) seenIds.add(input.id);
+    report.ready.push({ row, input, warnings });
+  });
+
+  report.errors.sort((a, b) => a.row - b.row);
+  return report;
+}
+
+// Row numbers are file line numbers, counting the header as line 1
+export function planCsvImport(
+  rows: string[][],
+  mapping: ColumnMapping,
+  formats: CsvFormats,
+  existing: StudySession[],
+  now = new Date(),
+): CsvImportReport {
+  const errors: CsvImportReport['errors'] = [];
+  const parsed: ImportRow[] = [];
+
+  rows.forEach((cells, i) => {
+    const row = i + 2;
+    const get = (field: SessionCsvField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+    const fail = (message: string) => errors.push({ row, message });
+
+    const id = get('id');
+    const date = parseWith(get('date'), formats.date);
+    const start = parseWith(get('startTime'), formats.time);
+    const end = parseWith(get('endTime'), formats.time);
+    if (!date) return fail(`Unrecognised date "${get('date')}".`);
+    if (!start || !end) return fail(`Unrecognised time "${!start ? get('startTime') : get('endTime')}".`);
+    if (!get('subject')) return fail('Subject is empty.');
+
+    const focusQuality = parseInteger(get('focusQuality'), 3);
+    const distractionCount = parseInteger(get('distractionCount'), 0);
+    const duration = get('durationMinutes');
+    const energyLevel = (get('energyLevel').toLowerCase() || 'medium') as EnergyLevel;
+    if (!Number.isInteger(focusQuality) || focusQuality < 1 || focusQuality > 5) return fail('Focus quality must be 1 to 5.');
+    if (!Number.isInteger(distractionCount) || distractionCount < 0) return fail('Distractions must be a whole number.');
+    if (duration && !(Number(duration) > 0)) return fail(`Invalid duration "${duration}".`);
+    if (!ENERGY_LEVELS.includes(energyLevel)) return fail(`Energy must be low, medium or high, not "${get('energyLevel')}".`);
+
+    parsed.push({
+      row,
+      input: {
+        ...(id ? { id } : {}),
+        date: format(date, 'yyyy-MM-dd'),
+        subject: get('subject'),
+        startTime: format(start, 'HH:mm'),
+        endTime: format(end, 'HH:mm'),
+        ...(duration ? { durationMinutes: Math.round(Number(duration)) } : {}),
+        focusQuality,
+        distractionCount,
+        energyLevel,
+        notes: get('notes'),
+      },
+    });
+  });
+
+  return planSessionImport(parsed, existing, now, { ready: [], duplicates: [], errors });
+}
@@ -0,0 +1,65 @@
+import { addDays, differenceInMinutes, endOfDay, format, max, min, parse, parseISO, startOfDay } from 'date-fns';
+import { StudySession } from '@/lib/types';
+
+// Local wall-clock timestamps, e.g. 2026-03-14T23:30
+export const TIMESTAMP_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// An end time at or before the start time means the session ran past midnight,
+// but only when the result is a plausible overnight stretch
+export const MAX_OVERNIGHT_MINUTES = 12 * 60;
+
+export interface ResolvedTimes {
+  startAt: string;
+  endAt: string;
+  spanMinutes: number;
+}
+
+export function resolveSessionTimes(date: string, startTime: string, endTime: string): ResolvedTimes | { error: string } {
+  const start = parse(`${date} ${startTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  let end = parse(`${date} ${endTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { error: 'Enter a valid date, start and end time.' };
+  }
+  if (end.getTime() === start.getTime()) {
+    return { error: 'Start and end time are the same.' };
+  }
+  if (end < start) {
+    end = addDays(end, 1);
+    if (differenceInMinutes(end, start) > MAX_OVERNIGHT_MINUTES) {
+      return { error: 'End time is before start time. Sessions past midnight can last at most 12 hours.' };
+    }
+  }
+  return {
+    startAt: format(start, TIMESTAMP_FORMAT),
+    endAt: format(end, TIMESTAMP_FORMAT),
+    spanMinutes: differenceInMinutes(end, start),
+  };
+}
+
+export function endsNextDay(session: Pick<StudySession, 'date' | 'endAt'>): boolean {
+  return !session.endAt.startsWith(session.date);
+}
+
+// Focused minutes of a session that fall inside [rangeStart, rangeEnd].
+// Pauses excluded from durationMinutes are spread evenly over the session's span.
+export function minutesWithin(session: StudySession, rangeStart: Date, rangeEnd: Date): number {
+  const start = parseISO(session.startAt);
+  const end = parseISO(session.endAt);
+  const span = differenceInMinutes(end, start);
+  if (span <= 0) return 0;
+  const overlapStart = max([start, rangeStart]);
+  const overlapEnd = min([end, rangeEnd]);
+  if (overlapEnd <= overlapStart) return 0;
+  // rangeEnd is inclusive (endOfDay is 23:59:59.999), so round the overlap to whole minutes
+  const overlap = Math.round((overlapEnd.getTime() - overlapStart.getTime()) / 60_000);
+  return (Math.min(overlap, span) / span) * session.durationMinutes;
+}
+
+// Minutes count toward each calendar day they were actually worked on, so a
+// 23:00–01:30 session adds 1h to its start date and 1.5h to the next day
+export function minutesOnDate(sessions: StudySession[], date: string): number {
+  const day = parseISO(date);
+  const dayStart = startOfDay(day);
+  const dayEnd = endOfDay(day);
+  return sessions.reduce((sum, s) => sum + minutesWithin(s, dayStart, dayEnd), 0);
+}
@@ -0,0 +1,163 @@
+import { addDays, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { NewSessionInput, SessionResult, SessionSaveOptions, StudySession } from '@/lib/types';
+import { minutesOnDate, resolveSessionTimes } from '@/lib/sessionTime';
+
+// More real deep work than this in one day is almost certainly a logging mistake
+export const PLAUSIBLE_DAILY_MINUTES = 12 * 60;
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface SessionIssue {
+  severity: IssueSeverity;
+  code: 'overlap' | 'daily-total' | 'future' | 'duration';
+  message: string;
+  date: string;
+  sessionIds: string[];
+}
+
+function overlaps(a: StudySession, b: StudySession): boolean {
+  return a.startAt < b.endAt && b.startAt < a.endAt;
+}
+
+function daysTouched(session: StudySession): string[] {
+  return eachDayOfInterval({ start: parseISO(session.startAt), end: parseISO(session.endAt) })
+    .map(d => format(d, 'yyyy-MM-dd'));
+}
+
+function formatHours(minutes: number): string {
+  return `${Math.round((minutes / 60) * 10) / 10}h`;
+}
+
+// Errors block saving; warnings can be confirmed by the user
+export function validateSession(candidate: StudySession, sessions: StudySession[], now = new Date()): SessionIssue[] {
+  const issues: SessionIssue[] = [];
+  const others = sessions.filter(s => s.id !== candidate.id);
+  const nowStamp = format(now, "yyyy-MM-dd'T'HH:mm");
+
+  if (candidate.startAt > nowStamp) {
+    issues.push({
+      severity: 'error',
+      code: 'future',
+      message: 'This session starts in the future.',
+      date: candidate.date,
+      sessionIds: [candidate.id],
+    });
+  } else if (candidate.endAt > nowStamp) {
+    issues.push({
+      severity: 'warning',
+      code: 'future',
+      message: `This session ends in the future (${candidate.endTime}).`,
+      date: candidate.date,
+      sessionIds: [candidate.id],
+    });
+  }
+
+  others.filter(s => overlaps(candidate, s)).forEach(s => {
+    issues.push({
+      severity: 'error',
+      code: 'overlap',
+      message: `Overlaps "${s.subject}" (${s.startTime} → ${s.endTime}).`,
+      date: candidate.date,
+      sessionIds: [candidate.id, s.id],
+    });
+  });
+
+  const withCandidate = [...others, candidate];
+  daysTouched(candidate).forEach(date => {
+    const total = minutesOnDate(withCandidate, date);
+    if (total > PLAUSIBLE_DAILY_MINUTES) {
+      issues.push({
+        severity: 'warning',
+        code: 'daily-total',
+        message: `This brings ${format(parseISO(date), 'MMM d')} to ${formatHours(total)} of deep work.`,
+        date,
+        sessionIds: [candidate.id],
+      });
+    }
+  });
+
+  return issues;
+}
+
+export function checkIssues(issues: SessionIssue[], options: SessionSaveOptions): Exclude<SessionResult, { id: string }> | null {
+  const error = issues.find(i => i.severity === 'error');
+  if (error) return { error: error.message };
+  const warnings = issues.filter(i => i.severity === 'warning');
+  if (warnings.length > 0 && !options.confirmWarnings) return { warnings: warnings.map(w => w.message) };
+  return null;
+}
+
+// Builds a new session from user input and checks it against the existing ones. Pass
+// trashed sessions too: they keep their ids, but only active ones can overlap.
+export function prepareSession(
+  input: NewSessionInput,
+  sessions: StudySession[],
+  options: SessionSaveOptions = {},
+  now = new Date(),
+): { session: StudySession } | Exclude<SessionResult, { id: string }> {
+  const resolved = resolveSessionTimes(input.date, input.startTime, input.endTime);
+  if ('error' in resolved) return { error: resolved.error };
+  if (input.id && sessions.some(s => s.id === input.id)) {
+    return { error: sessions.some(s => s.id === input.id && s.deletedAt)
+      ? 'A session with this id is in the trash.'
+      : 'A session with this id already exists.' };
+  }
+
+  // Focused minutes passed in (e.g. by the timer) exclude pauses, but never exceed the span
+  const durationMinutes = input.durationMinutes !== undefined
+    ? Math.min(input.durationMinutes, resolved.spanMinutes)
+    : resolved.spanMinutes;
+  const session: StudySession = {
+    ...input,
+    id: input.id || crypto.randomUUID(),
+    startAt: resolved.startAt,
+    endAt: resolved.endAt,
+    durationMinutes,
+  };
+  const blocked = checkIssues(validateSession(session, sessions.filter(s => !s.deletedAt), now), options);
+  return blocked ?? { session };
+}
+
+// Scans existing history for problems logged before validation existed
+export function getDataHealthIssues(sessions: StudySession[], now = new Date()): SessionIssue[] {
+  const issues: SessionIssue[] = [];
+  const nowStamp = format(now, "yyyy-MM-dd'T'HH:mm");
+  const sorted = [...sessions].sort((a, b) => a.startAt.localeCompare(b.startAt));
+
+  sorted.forEach((s, i) => {
+    if (s.startAt > nowStamp) {
+      issues.push({ severity: 'error', code: 'future', message: `"${s.subject}" is dated in the future.`, date: s.date, sessionIds: [s.id] });
+    }
+    if (s.durationMinutes <= 0 || s.endAt <= s.startAt) {
+      issues.push({ severity: 'error', code: 'duration', message: `"${s.subject}" has no valid duration.`, date: s.date, sessionIds: [s.id] });
+    }
+    for (let j = i + 1; j < sorted.length && sorted[j].startAt < s.endAt; j++) {
+      if (overlaps(s, sorted[j])) {
+        issues.push({
+          severity: 'error',
+          code: 'overlap',
+          message: `"${s.subject}" (${s.startTime} → ${s.endTime}) overlaps "${sorted[j].subject}" (${sorted[j].startTime} → ${sorted[j].endTime}).`,
+          date: s.date,
+          sessionIds: [s.id, sorted[j].id],
+        });
+      }
+    }
+  });
+
+  const days = new Set(sessions.flatMap(s => s.endAt > s.startAt ? daysTouched(s) : [s.date]));
+  [...days].sort().forEach(date => {
+    const total = minutesOnDate(sessions, date);
+    if (total > PLAUSIBLE_DAILY_MINUTES) {
+      const nextDay = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+      issues.push({
+        severity: 'warning',
+        code: 'daily-total',
+        message: `${format(parseISO(date), 'MMM d, yyyy')} has ${formatHours(total)} logged.`,
+        date,
+        sessionIds: sessions.filter(s => s.startAt < nextDay && s.endAt > date).map(s => s.id),
+      });
+    }
+  });
+
+  return issues.sort((a, b) => b.date.localeCompare(a.date));
+}
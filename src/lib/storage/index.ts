@@ -0,0 +1,47 @@
+import { createIndexedDbAdapter } from './indexedDb';
+import { createMemoryAdapter } from './memory';
+import { StorageAdapter, StoreName, StoreRecords, STORE_KEYS } from './types';
+
+export * from './types';
+export { createIndexedDbAdapter } from './indexedDb';
+export { createMemoryAdapter } from './memory';
+export { LEGACY_KEYS, migrateFromLocalStorage } from './legacy';
+export { loadTrackerData, upgradeData, upgradeRecords, MIGRATIONS, SCHEMA_VERSION, SCHEMA_VERSION_KEY } from './migrations';
+export type { RawData, TrackerData, UpgradedData } from './migrations';
+
+let defaultAdapter: StorageAdapter | null = null;
+
+export function getDefaultAdapter(): StorageAdapter {
+  if (!defaultAdapter) {
+    defaultAdapter = typeof indexedDB !== 'undefined' ? createIndexedDbAdapter() : createMemoryAdapter();
+  }
+  return defaultAdapter;
+}
+
+// Persists only the records whose identity changed since the last write.
+// State updates in the tracker are immutable, so untouched records keep their identity.
+export function diffRecords<K extends StoreName>(store: K, prev: StoreRecords[K][], next: StoreRecords[K][]) {
+  const keyField = STORE_KEYS[store];
+  const prevByKey = new Map(prev.map(r => [String(r[keyField]), r]));
+  const nextKeys = new Set(next.map(r => String(r[keyField])));
+  return {
+    put: next.filter(r => prevByKey.get(String(r[keyField])) !== r),
+    delete: [...prevByKey.keys()].filter(key => !nextKeys.has(key)),
+  };
+}
+
+// The inverse of diffRecords: applies changes made elsewhere, keeping the order of existing records
+export function applyRecordChanges<K extends StoreName>(store: K, records: StoreRecords[K][], changes: { put?: StoreRecords[K][]; delete?: string[] }) {
+  const keyField = STORE_KEYS[store];
+  const puts = new Map((changes.put ?? []).map(r => [String(r[keyField]), r]));
+  const deleted = new Set(changes.delete ?? []);
+  const kept = records
+    .filter(r => !deleted.has(String(r[keyField])))
+    .map(r => {
+      const key = String(r[keyField]);
+      const replacement = puts.get(key);
+      puts.delete(key);
+      return replacement ?? r;
+    });
+  return [...kept, ...puts.values()];
+}
@@ -0,0 +1,68 @@
+import { StorageAdapter, StoreName, STORE_INDEXES, STORE_KEYS } from './types';
+
+const DB_NAME = 'deepwork';
+const DB_VERSION = 3;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      (Object.keys(STORE_KEYS) as StoreName[]).forEach(name => {
+        if (db.objectStoreNames.contains(name)) return;
+        const store = db.createObjectStore(name, { keyPath: STORE_KEYS[name] });
+        STORE_INDEXES[name].forEach(index => store.createIndex(index, index));
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// One record per row, so a change to a single session writes only that session
+export function createIndexedDbAdapter(): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ??= openDatabase());
+
+  return {
+    async getAll(store) {
+      const tx = (await db()).transaction(store, 'readonly');
+      return request(tx.objectStore(store).getAll());
+    },
+    async getAllByIndex(store, index, value) {
+      const tx = (await db()).transaction(store, 'readonly');
+      return request(tx.objectStore(store).index(index).getAll(value));
+    },
+    async get(store, key) {
+      const tx = (await db()).transaction(store, 'readonly');
+      return request(tx.objectStore(store).get(key));
+    },
+    async write(store, changes) {
+      const tx = (await db()).transaction(store, 'readwrite');
+      const objectStore = tx.objectStore(store);
+      changes.delete?.forEach(key => objectStore.delete(key));
+      changes.put?.forEach(record => objectStore.put(record));
+      await transactionDone(tx);
+    },
+    async clear(store) {
+      const tx = (await db()).transaction(store, 'readwrite');
+      tx.objectStore(store).clear();
+      await transactionDone(tx);
+    },
+  };
+}
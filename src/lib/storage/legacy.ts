@@ -0,0 +1,46 @@
+import { QuarantineRecord, StorageAdapter, StoreRecords, STORE_KEYS } from './types';
+
+// Keys the tracker used before it moved to IndexedDB
+type LegacyKeyStore = 'sessions' | 'habits' | 'targets';
+
+export const LEGACY_KEYS: Record<LegacyKeyStore, string> = {
+  sessions: 'deepwork-sessions',
+  habits: 'deepwork-habits',
+  targets: 'deepwork-targets',
+};
+
+const MIGRATED_META_KEY = 'migratedFromLocalStorage';
+
+// Copies the old localStorage arrays into the adapter once, then drops them.
+// Anything that cannot be stored under its key goes to quarantine instead.
+export async function migrateFromLocalStorage(adapter: StorageAdapter, storage: Storage = localStorage): Promise<void> {
+  if (await adapter.get('meta', MIGRATED_META_KEY)) return;
+  const quarantinedAt = new Date().toISOString();
+  const quarantine: QuarantineRecord[] = [];
+
+  for (const [store, key] of Object.entries(LEGACY_KEYS) as [LegacyKeyStore, string][]) {
+    const data = storage.getItem(key);
+    if (!data) continue;
+    let records: unknown;
+    try {
+      records = JSON.parse(data);
+    } catch {
+      records = null;
+    }
+    if (!Array.isArray(records)) {
+      quarantine.push({ id: `${store}:${key}`, store, key: null, record: data, reason: 'Stored value is not a JSON array', schemaVersion: 1, quarantinedAt });
+      continue;
+    }
+
+    const keyField = STORE_KEYS[store];
+    const keyed = records.filter(r => typeof r?.[keyField] === 'string') as StoreRecords[typeof store][];
+    records.filter(r => typeof r?.[keyField] !== 'string').forEach(record => {
+      quarantine.push({ id: `${store}:${crypto.randomUUID()}`, store, key: null, record, reason: `Missing ${keyField}`, schemaVersion: 1, quarantinedAt });
+    });
+    if (keyed.length > 0) await adapter.write(store, { put: keyed });
+  }
+
+  if (quarantine.length > 0) await adapter.write('quarantine', { put: quarantine });
+  await adapter.write('meta', { put: [{ key: MIGRATED_META_KEY, value: quarantinedAt }] });
+  Object.values(LEGACY_KEYS).forEach(key => storage.removeItem(key));
+}
@@ -0,0 +1,39 @@
+import { StorageAdapter, StoreName, StoreRecords, STORE_KEYS } from './types';
+
+// Keeps everything in plain Maps; used by tests and when IndexedDB is unavailable
+export function createMemoryAdapter(initial: Partial<{ [K in StoreName]: StoreRecords[K][] }> = {}): StorageAdapter {
+  const stores = new Map<StoreName, Map<string, unknown>>();
+
+  const storeFor = <K extends StoreName>(store: K) => {
+    if (!stores.has(store)) {
+      const keyField = STORE_KEYS[store];
+      const records: StoreRecords[K][] = initial[store] ?? [];
+      stores.set(store, new Map(records.map(r => [String(r[keyField]), structuredClone(r)] as const)));
+    }
+    return stores.get(store) as Map<string, StoreRecords[K]>;
+  };
+
+  return {
+    async getAll(store) {
+      return [...storeFor(store).values()].map(r => structuredClone(r));
+    },
+    async getAllByIndex(store, index, value) {
+      return [...storeFor(store).values()]
+        .filter(r => r[index as keyof typeof r] === value)
+        .map(r => structuredClone(r));
+    },
+    async get(store, key) {
+      const record = storeFor(store).get(key);
+      return record === undefined ? undefined : structuredClone(record);
+    },
+    async write(store, changes) {
+      const records = storeFor(store);
+      const keyField = STORE_KEYS[store];
+      changes.delete?.forEach(key => records.delete(key));
+      changes.put?.forEach(r => records.set(String(r[keyField]), structuredClone(r)));
+    },
+    async clear(store) {
+      storeFor(store).clear();
+    },
+  };
+}
@@ -0,0 +1,226 @@
+import { addDays, differenceInMinutes, format, parse } from 'date-fns';
+import { createDefaultHabits, DEFAULT_HABITS, habitEntryId } from '@/lib/habits';
+import { DataStoreName, DATA_STORES, LegacyStoreName, QuarantineRecord, StorageAdapter, StoreRecords, STORE_KEYS } from './types';
+import { describeZodError, RECORD_SCHEMAS } from './schema';
+import { migrateFromLocalStorage } from './legacy';
+
+// Records of every store, including legacy ones, as read before validation
+export type RawData = Partial<Record<DataStoreName | LegacyStoreName, unknown[]>>;
+
+interface Migration {
+  // Schema version the data is at after this migration ran
+  version: number;
+  description: string;
+  // Moves records between stores; runs before the per-record `up` steps
+  reshape?: (data: RawData) => RawData;
+  // Gets each record as read, so every step has to narrow it itself
+  up?: Partial<Record<DataStoreName, (record: unknown) => unknown>>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Sessions saved before version 2 only had a date and clock times. This is the
+// conversion as it shipped, spelled out here so later changes to how the app reads
+// session times leave old data alone: an end at or before the start ran past
+// midnight, for at most 12 hours, and times that make no sense get an empty span.
+function addSessionTimestamps(session: unknown): unknown {
+  if (!isRecord(session)) throw new Error('Not a session record');
+  if (session.startAt && session.endAt) return session;
+  const { date, startTime, endTime } = session;
+  // Validation sets aside whatever cannot be converted
+  if (typeof date !== 'string' || typeof startTime !== 'string' || typeof endTime !== 'string') return session;
+
+  const empty = { ...session, startAt: `${date}T${startTime}`, endAt: `${date}T${startTime}` };
+  const start = parse(`${date} ${startTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  let end = parse(`${date} ${endTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end.getTime() === start.getTime()) return empty;
+  if (end < start) {
+    end = addDays(end, 1);
+    if (differenceInMinutes(end, start) > 12 * 60) return empty;
+  }
+  return { ...session, startAt: format(start, "yyyy-MM-dd'T'HH:mm"), endAt: format(end, "yyyy-MM-dd'T'HH:mm") };
+}
+
+// One legacy record per day becomes one entry per default habit and day. Records
+// without a date stay behind in the legacy store and end up in quarantine.
+function splitLegacyHabits(data: RawData): RawData {
+  const legacy = data.habits ?? [];
+  const convertible = legacy.filter((r): r is Record<string, unknown> => isRecord(r) && typeof r.date === 'string');
+  const entries = convertible.flatMap(record => DEFAULT_HABITS.map(habit => ({
+    id: habitEntryId(habit.id, record.date as string),
+    habitId: habit.id,
+    date: record.date,
+    done: record[habit.id] === true,
+  })));
+  // Existing history keeps counting, so the habits start on the first recorded day
+  const firstDate = convertible.map(r => r.date as string).sort()[0] ?? format(new Date(), 'yyyy-MM-dd');
+  const definitions = data.habitDefinitions?.length ? data.habitDefinitions : createDefaultHabits(firstDate);
+
+  return {
+    ...data,
+    habits: legacy.filter(r => !convertible.includes(r as Record<string, unknown>)),
+    habitDefinitions: definitions,
+    habitEntries: [...(data.habitEntries ?? []), ...entries],
+  };
+}
+
+// The default abstinence habits start out with the relapse journal on; a habit the
+// user already configured keeps its setting
+function enableRelapseJournal(habit: unknown): unknown {
+  if (!isRecord(habit)) return habit;
+  const defaults = DEFAULT_HABITS.find(h => h.id === habit.id);
+  return defaults?.tracksRelapses && habit.tracksRelapses === undefined ? { ...habit, tracksRelapses: true } : habit;
+}
+
+// Append-only: never edit a migration that has shipped, add a new one instead.
+// Data without a stored version is treated as version 1, the original localStorage format.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Store full start/end timestamps on sessions',
+    up: { sessions: addSessionTimestamps },
+  },
+  {
+    version: 3,
+    description: 'Replace the six fixed daily habits with habit definitions and per-habit entries',
+    reshape: splitLegacyHabits,
+  },
+  {
+    version: 4,
+    description: 'Turn on the relapse journal for the default abstinence habits',
+    up: { habitDefinitions: enableRelapseJournal },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+const LEGACY_STORES: LegacyStoreName[] = ['habits'];
+
+export type UpgradedData = { [K in DataStoreName]: StoreRecords[K][] };
+
+export interface UpgradeDataResult {
+  data: UpgradedData;
+  quarantined: QuarantineRecord[];
+}
+
+// Runs every migration newer than fromVersion over the data, then validates each record.
+// Records that throw or fail validation are set aside rather than dropped, in the form they were read.
+export function upgradeData(raw: RawData, fromVersion: number): UpgradeDataResult {
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  const quarantined: QuarantineRecord[] = [];
+  const quarantinedAt = new Date().toISOString();
+  // Migrated records map back to what was read, so quarantine never holds a half-migrated record
+  const originals = new Map<unknown, unknown>();
+  let current: RawData = {};
+  Object.entries(raw).forEach(([store, records]) => {
+    current[store as keyof RawData] = records.map(record => {
+      originals.set(record, record);
+      return record;
+    });
+  });
+
+  const setAside = (store: DataStoreName | LegacyStoreName, record: unknown, reason: string) => {
+    const original = originals.get(record) ?? record;
+    const key = isRecord(original) ? original[STORE_KEYS[store]] : undefined;
+    quarantined.push({
+      id: `${store}:${typeof key === 'string' ? key : crypto.randomUUID()}`,
+      store,
+      key: typeof key === 'string' ? key : null,
+      record: original,
+      reason,
+      schemaVersion: fromVersion,
+      quarantinedAt,
+    });
+  };
+
+  for (const migration of pending) {
+    if (migration.reshape) current = migration.reshape(current);
+    Object.entries(migration.up ?? {}).forEach(([store, up]) => {
+      const name = store as DataStoreName;
+      current[name] = (current[name] ?? []).flatMap(record => {
+        try {
+          const upgraded = up(record);
+          originals.set(upgraded, originals.get(record) ?? record);
+          return [upgraded];
+        } catch (error) {
+          setAside(name, record, error instanceof Error ? error.message : String(error));
+          return [];
+        }
+      });
+    });
+  }
+
+  const data = {} as Record<DataStoreName, unknown[]>;
+  DATA_STORES.forEach(store => {
+    data[store] = (current[store] ?? []).filter(record => {
+      const parsed = RECORD_SCHEMAS[store].safeParse(record);
+      if (!parsed.success) setAside(store, record, describeZodError(parsed.error));
+      // Keep the record itself so fields from a newer app version survive
+      return parsed.success;
+    });
+  });
+  LEGACY_STORES.forEach(store => {
+    (current[store] ?? []).forEach(record => setAside(store, record, 'Could not be converted to the current format'));
+  });
+
+  return { data: data as UpgradedData, quarantined };
+}
+
+export interface UpgradeResult<K extends DataStoreName> {
+  valid: StoreRecords[K][];
+  quarantined: QuarantineRecord[];
+}
+
+// Upgrades the records of a single store that no migration moves elsewhere
+export function upgradeRecords<K extends DataStoreName>(store: K, records: unknown[], fromVersion: number): UpgradeResult<K> {
+  const { data, quarantined } = upgradeData({ [store]: records }, fromVersion);
+  return { valid: data[store], quarantined: quarantined.filter(q => q.store === store) };
+}
+
+export type TrackerData = UpgradedData & {
+  quarantine: QuarantineRecord[];
+};
+
+// Reads and writes under the same store key, so records cannot land in another store
+async function putUpgraded<K extends DataStoreName>(adapter: StorageAdapter, data: UpgradedData, store: K): Promise<void> {
+  const records: StoreRecords[K][] = data[store];
+  if (records.length > 0) await adapter.write(store, { put: records });
+}
+
+export async function loadTrackerData(adapter: StorageAdapter): Promise<TrackerData> {
+  await migrateFromLocalStorage(adapter);
+  const versionRecord = await adapter.get('meta', SCHEMA_VERSION_KEY);
+  const storedVersion = typeof versionRecord?.value === 'number' ? versionRecord.value : 1;
+  const needsUpgrade = storedVersion < SCHEMA_VERSION;
+
+  const raw: RawData = {};
+  for (const store of [...DATA_STORES, ...LEGACY_STORES]) {
+    raw[store] = await adapter.getAll(store);
+  }
+  const { data, quarantined } = upgradeData(raw, storedVersion);
+
+  if (quarantined.length > 0) {
+    await adapter.write('quarantine', { put: quarantined });
+    for (const store of new Set(quarantined.map(q => q.store))) {
+      await adapter.write(store, { delete: quarantined.filter(q => q.store === store && q.key !== null).map(q => q.key as string) });
+    }
+  }
+  if (needsUpgrade) {
+    for (const store of DATA_STORES) await putUpgraded(adapter, data, store);
+    for (const store of LEGACY_STORES) {
+      const leftover = raw[store] ?? [];
+      if (leftover.length > 0) {
+        await adapter.write(store, { delete: leftover.map(r => isRecord(r) ? String(r[STORE_KEYS[store]]) : '').filter(Boolean) });
+      }
+    }
+  }
+
+  // Data written by a newer app version keeps its version number
+  if (needsUpgrade) {
+    await adapter.write('meta', { put: [{ key: SCHEMA_VERSION_KEY, value: SCHEMA_VERSION }] });
+  }
+
+  return { ...data, quarantine: await adapter.getAll('quarantine') };
+}
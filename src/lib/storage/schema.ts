@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected yyyy-MM-dd');
+const time = z.string().regex(/^\d{2}:\d{2}$/, 'expected HH:mm');
+const timestamp = z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, "expected yyyy-MM-dd'T'HH:mm");
+
+export const sessionSchema = z.object({
+  id: z.string().min(1),
+  date,
+  subject: z.string(),
+  startTime: time,
+  endTime: time,
+  startAt: timestamp,
+  endAt: timestamp,
+  durationMinutes: z.number().nonnegative(),
+  focusQuality: z.number().int().min(1).max(5),
+  distractionCount: z.number().int().nonnegative(),
+  energyLevel: z.enum(['low', 'medium', 'high']),
+  notes: z.string(),
+  deletedAt: z.string().datetime({ offset: true }).optional(),
+});
+
+export const habitDefinitionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  icon: z.string(),
+  order: z.number().int(),
+  measure: z.object({
+    unit: z.string(),
+    target: z.number().nonnegative(),
+    comparison: z.enum(['atLeast', 'atMost']),
+  }).optional(),
+  schedule: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('daily') }),
+    z.object({ type: z.literal('weekdays'), days: z.array(z.number().int().min(0).max(6)).min(1) }),
+    z.object({ type: z.literal('perWeek'), times: z.number().int().min(1).max(7) }),
+    z.object({ type: z.literal('perMonth'), times: z.number().int().min(1).max(31) }),
+  ]).optional(),
+  tracksRelapses: z.boolean().optional(),
+  createdAt: date,
+  archivedAt: date.nullable(),
+});
+
+export const relapseLogSchema = z.object({
+  id: z.string().min(1),
+  time,
+  trigger: z.enum(['boredom', 'stress', 'loneliness', 'tiredness', 'social', 'environment', 'other']),
+  context: z.string(),
+  mood: z.number().int().min(1).max(5),
+  notes: z.string(),
+});
+
+export const habitEntrySchema = z.object({
+  id: z.string().min(1),
+  habitId: z.string().min(1),
+  date,
+  done: z.boolean(),
+  value: z.number().nonnegative().optional(),
+  rest: z.boolean().optional(),
+  relapses: z.array(relapseLogSchema).optional(),
+});
+
+export const targetSchema = z.object({
+  weekStart: date,
+  targetHours: z.number().positive(),
+  actualHours: z.number().nonnegative(),
+  met: z.boolean(),
+  closedAt: z.string().datetime({ offset: true }).optional(),
+  deloadFrom: z.number().positive().optional(),
+  plannedHours: z.number().positive().optional(),
+  overrideReason: z.string().optional(),
+});
+
+export const RECORD_SCHEMAS = {
+  sessions: sessionSchema,
+  habitDefinitions: habitDefinitionSchema,
+  habitEntries: habitEntrySchema,
+  targets: targetSchema,
+};
+
+export function describeZodError(error: z.ZodError): string {
+  return error.issues.map(i => `${i.path.join('.') || 'record'}: ${i.message}`).join('; ');
+}
@@ -0,0 +1,75 @@
+import { HabitDefinition, HabitEntry, StudySession, WeeklyTarget } from '@/lib/types';
+
+// Habits as stored before schema version 3: one record per day with a fixed set of booleans
+export interface LegacyDailyHabits {
+  date: string;
+  wakeUpOnTime: boolean;
+  sleepEnough: boolean;
+  exercise: boolean;
+  englishPractice: boolean;
+  noPorn: boolean;
+  noSocialMedia: boolean;
+}
+
+export interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+// A stored record that failed migration or validation, kept for inspection
+export interface QuarantineRecord {
+  id: string;
+  store: DataStoreName | LegacyStoreName;
+  key: string | null; // primary key in its original store, if it had a usable one
+  record: unknown;
+  reason: string;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+export interface StoreRecords {
+  sessions: StudySession;
+  habitDefinitions: HabitDefinition;
+  habitEntries: HabitEntry;
+  targets: WeeklyTarget;
+  habits: LegacyDailyHabits;
+  meta: MetaRecord;
+  quarantine: QuarantineRecord;
+}
+
+export type StoreName = keyof StoreRecords;
+export type DataStoreName = 'sessions' | 'habitDefinitions' | 'habitEntries' | 'targets';
+// Stores kept only so migrations can read data from older versions
+export type LegacyStoreName = 'habits';
+
+export const DATA_STORES: DataStoreName[] = ['sessions', 'habitDefinitions', 'habitEntries', 'targets'];
+
+export const STORE_KEYS: { [K in StoreName]: keyof StoreRecords[K] & string } = {
+  sessions: 'id',
+  habitDefinitions: 'id',
+  habitEntries: 'id',
+  targets: 'weekStart',
+  habits: 'date',
+  meta: 'key',
+  quarantine: 'id',
+};
+
+// Secondary indexes each store supports for lookups
+export const STORE_INDEXES: { [K in StoreName]: (keyof StoreRecords[K] & string)[] } = {
+  sessions: ['date', 'subject'],
+  habitDefinitions: [],
+  habitEntries: ['date', 'habitId'],
+  targets: [],
+  habits: [],
+  meta: [],
+  quarantine: [],
+};
+
+export interface StorageAdapter {
+  getAll<K extends StoreName>(store: K): Promise<StoreRecords[K][]>;
+  getAllByIndex<K extends StoreName>(store: K, index: (typeof STORE_INDEXES)[K][number], value: string): Promise<StoreRecords[K][]>;
+  get<K extends StoreName>(store: K, key: string): Promise<StoreRecords[K] | undefined>;
+  // Writes and deletes are applied together in one transaction
+  write<K extends StoreName>(store: K, changes: { put?: StoreRecords[K][]; delete?: string[] }): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+}
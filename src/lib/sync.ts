@@ -0,0 +1,48 @@
+// Messaging between open tabs of the app. BroadcastChannel where available, otherwise
+// `storage` events, which browsers fire in every other tab that shares localStorage.
+
+// Identifies this tab for as long as the page stays loaded
+export const TAB_ID = crypto.randomUUID();
+
+export interface SyncChannel<T> {
+  post: (message: T) => void;
+  subscribe: (handler: (message: T) => void) => () => void;
+  close: () => void;
+}
+
+export function createSyncChannel<T>(name: string): SyncChannel<T> {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    return {
+      post: message => channel.postMessage(message),
+      subscribe: handler => {
+        const listener = (event: MessageEvent<T>) => handler(event.data);
+        channel.addEventListener('message', listener);
+        return () => channel.removeEventListener('message', listener);
+      },
+      close: () => channel.close(),
+    };
+  }
+
+  const key = `${name}-message`;
+  return {
+    post: message => {
+      // The nonce makes repeated identical messages still count as a change
+      localStorage.setItem(key, JSON.stringify({ message, nonce: crypto.randomUUID() }));
+      localStorage.removeItem(key);
+    },
+    subscribe: handler => {
+      const listener = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) return;
+        try {
+          handler(JSON.parse(event.newValue).message);
+        } catch {
+          // Ignore messages we can't read
+        }
+      };
+      window.addEventListener('storage', listener);
+      return () => window.removeEventListener('storage', listener);
+    },
+    close: () => {},
+  };
+}
@@ -0,0 +1,26 @@
+import { TimerMode, TimerProfile } from '@/lib/types';
+
+export const DEFAULT_PROFILES: TimerProfile[] = [
+  { id: 'classic', name: 'Classic 25/5', workMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, longBreakInterval: 4, autoStartNext: false, dailyGoal: 8, subjects: [] },
+  { id: 'deep-50', name: 'Deep 50/10', workMinutes: 50, shortBreakMinutes: 10, longBreakMinutes: 20, longBreakInterval: 3, autoStartNext: false, dailyGoal: 5, subjects: [] },
+  { id: 'ultradian-90', name: 'Ultradian 90/20', workMinutes: 90, shortBreakMinutes: 20, longBreakMinutes: 30, longBreakInterval: 2, autoStartNext: false, dailyGoal: 3, subjects: [] },
+  { id: 'flow-52', name: 'Flow 52/17', workMinutes: 52, shortBreakMinutes: 17, longBreakMinutes: 17, longBreakInterval: 4, autoStartNext: false, dailyGoal: 6, subjects: [] },
+];
+
+export function phaseMinutes(profile: TimerProfile, mode: TimerMode): number {
+  switch (mode) {
+    case 'work': return profile.workMinutes;
+    case 'shortBreak': return profile.shortBreakMinutes;
+    case 'longBreak': return profile.longBreakMinutes;
+  }
+}
+
+export function nextBreakMode(profile: TimerProfile, sessionsCompleted: number): TimerMode {
+  return sessionsCompleted % Math.max(1, profile.longBreakInterval) === 0 ? 'longBreak' : 'shortBreak';
+}
+
+export function findProfileForSubject(profiles: TimerProfile[], subject: string): TimerProfile | undefined {
+  const key = subject.trim().toLowerCase();
+  if (!key) return undefined;
+  return profiles.find(p => p.subjects.some(s => s.trim().toLowerCase() === key));
+}
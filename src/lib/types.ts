@@ -1,32 +1,122 @@
 export interface StudySession {
   id: string;
-  date: string;
+  date: string; // day the session started, where it is listed
   subject: string;
   startTime: string;
   endTime: string;
+  startAt: string; // local timestamp, yyyy-MM-ddTHH:mm
+  endAt: string; // may fall on the next day for sessions past midnight
   durationMinutes: number;
   focusQuality: number; // 1-5
   distractionCount: number;
   energyLevel: 'low' | 'medium' | 'high';
   notes: string;
+  deletedAt?: string; // ISO time it was moved to the trash; trashed sessions count toward nothing
+}
+
+export type SessionInput = Omit<StudySession, 'id' | 'durationMinutes' | 'startAt' | 'endAt' | 'deletedAt'>;
+
+// Imported sessions may keep their original id; timer-logged ones pass their focused minutes
+export type NewSessionInput = SessionInput & { id?: string; durationMinutes?: number };
+
+// Warnings are returned instead of saving until the caller confirms them
+export type SessionResult = { id: string } | { error: string } | { warnings: string[] };
+
+export interface SessionSaveOptions {
+  confirmWarnings?: boolean;
+}
+
+export type HabitComparison = 'atLeast' | 'atMost';
+
+// What a measured habit records each day and the value that counts as done
+export interface HabitMeasure {
+  unit: string; // e.g. hours, minutes, steps
+  target: number;
+  comparison: HabitComparison;
+}
+
+// When a habit is due. Weekdays use 0 for Sunday through 6 for Saturday; habits
+// done N times per week or month can be done on any day of that period.
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }
+  | { type: 'perWeek'; times: number }
+  | { type: 'perMonth'; times: number };
+
+export interface HabitDefinition {
+  id: string;
+  label: string;
+  icon: string; // an emoji
+  order: number;
+  measure?: HabitMeasure; // absent for yes/no habits
+  schedule?: HabitSchedule; // absent for daily habits
+  tracksRelapses?: boolean; // abstinence habits, whose missed days can carry a relapse log
+  createdAt: string; // yyyy-MM-dd, first day the habit counts
+  archivedAt: string | null; // yyyy-MM-dd, first day it no longer counts
 }
 
-export interface DailyHabits {
+export type RelapseTrigger = 'boredom' | 'stress' | 'loneliness' | 'tiredness' | 'social' | 'environment' | 'other';
+
+// One slip on an abstinence habit, written down to find out what sets them off
+export interface RelapseLog {
+  id: string;
+  time: string; // HH:mm
+  trigger: RelapseTrigger;
+  context: string; // where it happened and what was going on
+  mood: number; // 1-5, how the day felt beforehand
+  notes: string;
+}
+
+// Whether a habit was done on one day; days without an entry were never recorded
+export interface HabitEntry {
+  id: string; // habitId:date
+  habitId: string;
   date: string;
-  wakeUpOnTime: boolean;
-  sleepEnough: boolean;
-  exercise: boolean;
-  englishPractice: boolean;
-  noPorn: boolean;
-  noSocialMedia: boolean;
+  done: boolean;
+  value?: number; // measured habits only; done says whether it met the target of the day
+  rest?: boolean; // planned rest day or streak freeze: keeps the streak, never counts as done
+  relapses?: RelapseLog[]; // habits that track relapses only; logging one marks the day as not done
 }
 
 export interface WeeklyTarget {
-  weekStart: string;
-  targetHours: number;
-  actualHours: number;
+  weekStart: string; // Monday
+  targetHours: number; // deep work per day
+  actualHours: number; // average per day, recorded when the week is closed
   met: boolean;
+  closedAt?: string; // ISO time the finished week was closed; open weeks have none
+  deloadFrom?: number; // deload weeks only: the target they lowered, which the next week resumes
+  plannedHours?: number; // overridden weeks only: the target progression had set
+  overrideReason?: string;
+}
+
+// How the daily target moves from one week to the next
+export interface ProgressionRules {
+  startHours: number; // target of the very first week
+  increment: number; // added after a week the target was met
+  decrement: number; // taken off after a missed week; 0 holds the target
+  ceiling: number; // the target never goes above this
+  deloadEvery: number | null; // every Nth week is a lighter deload week; null for none
 }
 
 export type EnergyLevel = 'low' | 'medium' | 'high';
-export type TabType = 'daily' | 'habits' | 'dashboard' | 'progression' | 'timer';
+export type TabType = 'daily' | 'habits' | 'dashboard' | 'progression' | 'timer' | 'settings';
+export type TimerMode = 'work' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroCompletion {
+  task: string;
+  minutes: number;
+  startedAt: number; // epoch ms of the first start of the work phase
+  endedAt: number;
+}
+
+export interface TimerProfile {
+  id: string;
+  name: string;
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakInterval: number; // long break after every N work phases
+  autoStartNext: boolean;
+  dailyGoal: number; // pomodoros per day
+  subjects: string[]; // subjects that select this profile automatically
+}
@@ -1,14 +1,22 @@
-import { useState } from 'react';
-import { format } from 'date-fns';
-import { BookOpen, CheckSquare, BarChart3, Target, Flame, Timer } from 'lucide-react';
+import { useState, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { BookOpen, CheckSquare, BarChart3, Target, Flame, Timer, Settings as SettingsIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useStudyTracker } from '@/hooks/useStudyTracker';
+import { usePomodoroTimer } from '@/hooks/usePomodoroTimer';
+import { useTimerProfiles } from '@/hooks/useTimerProfiles';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
 import { DailyLog } from '@/components/DailyLog';
 import { HabitTracker } from '@/components/HabitTracker';
 import { Dashboard } from '@/components/Dashboard';
 import { Progression } from '@/components/Progression';
 import { PomodoroTimer } from '@/components/PomodoroTimer';
-import { TabType } from '@/lib/types';
+import { Settings } from '@/components/Settings';
+import { SessionReviewDialog, SessionReview } from '@/components/SessionReviewDialog';
+import { TimerIndicator } from '@/components/TimerIndicator';
+import { SessionResult, TabType } from '@/lib/types';
+import { TIMESTAMP_FORMAT } from '@/lib/sessionTime';
+import { toast } from '@/components/ui/sonner';
 
 const TABS: { key: TabType; label: string; icon: React.ReactNode }[] = [
   { key: 'daily', label: 'Daily Log', icon: <BookOpen className="w-4 h-4" /> },
@@ -16,6 +24,7 @@ const TABS: { key: TabType; label: string; icon: React.ReactNode }[] = [
   { key: 'habits', label: 'Habits', icon: <CheckSquare className="w-4 h-4" /> },
   { key: 'dashboard', label: 'Dashboard', icon: <BarChart3 className="w-4 h-4" /> },
   { key: 'progression', label: 'Goals', icon: <Target className="w-4 h-4" /> },
+  { key: 'settings', label: 'Settings', icon: <SettingsIcon className="w-4 h-4" /> },
 ];
 
 const Index = () => {
@@ -25,6 +34,65 @@ const Index = () => {
   const today = format(new Date(), 'yyyy-MM-dd');
   const dailyTotal = tracker.getDailyTotalHours(today);
 
+  const { undo, redo } = tracker;
+  const handleUndo = useCallback(() => {
+    const command = undo();
+    if (command) toast(`Undone: ${command.label.toLowerCase()}`);
+  }, [undo]);
+  const handleRedo = useCallback(() => {
+    const command = redo();
+    if (command) toast(`Redone: ${command.label.toLowerCase()}`);
+  }, [redo]);
+  useUndoShortcuts(handleUndo, handleRedo);
+
+  const handleDeleteSession = (id: string) => {
+    tracker.deleteSession(id);
+    toast('Session moved to the trash', { action: { label: 'Undo', onClick: handleUndo } });
+  };
+
+  // Lives here rather than in PomodoroTimer so the countdown survives tab switches
+  const timerProfiles = useTimerProfiles();
+  const timer = usePomodoroTimer({ profile: timerProfiles.activeProfile });
+
+  const reviewing = timer.pendingReviews[0] ?? null;
+  // Only the pomodoro just before this one, with no more than a break in between
+  const mergeWindowMs = Math.max(timerProfiles.activeProfile.shortBreakMinutes, timerProfiles.activeProfile.longBreakMinutes) * 60_000;
+  const lastTimerSession = reviewing ? tracker.sessions.find(s => s.id === timer.lastLoggedSessionId) : undefined;
+  const gapMs = reviewing && lastTimerSession ? reviewing.startedAt - parseISO(lastTimerSession.endAt).getTime() : NaN;
+  const mergeCandidate = gapMs >= 0 && gapMs <= mergeWindowMs ? lastTimerSession : undefined;
+
+  const handleReviewSave = (review: SessionReview): SessionResult => {
+    if (!reviewing) return { error: 'Nothing to log.' };
+    if (review.merge && mergeCandidate) {
+      const result = tracker.extendSession(mergeCandidate.id, {
+        endAt: format(reviewing.endedAt, TIMESTAMP_FORMAT),
+        durationMinutes: reviewing.minutes,
+        focusQuality: review.focusQuality,
+        distractionCount: review.distractionCount,
+        energyLevel: review.energyLevel,
+        notes: review.notes,
+      }, { confirmWarnings: true });
+      if ('id' in result) timer.finishReview(result.id);
+      return result;
+    }
+    // The timer measured this session itself, so only hard errors such as overlaps block it
+    const result = tracker.addSession({
+      date: format(reviewing.startedAt, 'yyyy-MM-dd'),
+      subject: review.subject,
+      startTime: format(reviewing.startedAt, 'HH:mm'),
+      endTime: format(reviewing.endedAt, 'HH:mm'),
+      durationMinutes: reviewing.minutes,
+      focusQuality: review.focusQuality,
+      distractionCount: review.distractionCount,
+      energyLevel: review.energyLevel,
+      notes: review.notes,
+    }, { confirmWarnings: true });
+    if ('id' in result) timer.finishReview(result.id);
+    return result;
+  };
+
+  const handleReviewDiscard = () => timer.finishReview();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -48,6 +116,7 @@ const Index = () => {
             animate={{ opacity: 1, x: 0 }}
             className="flex items-center gap-3"
           >
+            {activeTab !== 'timer' && <TimerIndicator timer={timer} onClick={() => setActiveTab('timer')} />}
             <div className="glass-card px-3 py-1.5 flex items-center gap-2">
               <span className="text-[10px] text-muted-foreground uppercase tracking-wider">Today</span>
               <span className="font-mono font-bold text-primary text-lg">{dailyTotal}h</span>
@@ -99,24 +168,31 @@ const Index = () => {
                 selectedDate={selectedDate}
                 onDateChange={setSelectedDate}
                 onAddSession={tracker.addSession}
-                onDeleteSession={tracker.deleteSession}
+                onUpdateSession={tracker.updateSession}
+                onDeleteSession={handleDeleteSession}
                 dailyTotal={tracker.getDailyTotalHours(selectedDate)}
+                healthIssues={tracker.getDataHealthReport()}
+                quarantine={tracker.quarantine}
+                onClearQuarantine={tracker.clearQuarantine}
               />
             )}
-            {activeTab === 'timer' && <PomodoroTimer />}
+            {activeTab === 'timer' && <PomodoroTimer timer={timer} profiles={timerProfiles} />}
             {activeTab === 'habits' && (
-              <HabitTracker
-                habits={tracker.getHabitsForDate(today)}
-                onUpdate={tracker.updateHabits}
-                streaks={tracker.getHabitStreaks()}
-                monthlyCompletion={tracker.getMonthlyHabitCompletion()}
-              />
+              <HabitTracker tracker={tracker} />
             )}
             {activeTab === 'dashboard' && <Dashboard tracker={tracker} />}
             {activeTab === 'progression' && <Progression tracker={tracker} />}
+            {activeTab === 'settings' && <Settings tracker={tracker} timerProfiles={timerProfiles} />}
           </motion.div>
         </AnimatePresence>
       </main>
+
+      <SessionReviewDialog
+        completion={reviewing}
+        mergeCandidate={mergeCandidate}
+        onSave={handleReviewSave}
+        onDiscard={handleReviewDiscard}
+      />
     </div>
   );
 };
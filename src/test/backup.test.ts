@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { applyBackup, BackupData, createBackup, diffBackup, parseBackup } from "@/lib/backup";
+import { DEFAULT_PROGRESSION_RULES } from "@/lib/progression";
+import { DEFAULT_PROFILES } from "@/lib/timerProfiles";
+import { session } from "@/test/fixtures";
+
+const settings = { timerProfiles: DEFAULT_PROFILES, activeTimerProfileId: DEFAULT_PROFILES[0].id };
+const empty: BackupData = { sessions: [], habitDefinitions: [], habitEntries: [], targets: [] };
+
+describe("parseBackup", () => {
+  it("round-trips an exported backup", () => {
+    const data = { ...empty, sessions: [session("a")] };
+    const parsed = parseBackup(JSON.stringify(createBackup(data, settings)));
+    expect("error" in parsed).toBe(false);
+    if ("error" in parsed) return;
+    expect(parsed.data).toEqual(data);
+    expect(parsed.settings?.activeTimerProfileId).toBe(DEFAULT_PROFILES[0].id);
+    expect(parsed.rejected).toEqual([]);
+  });
+
+  it("keeps app settings, and reads backups made before they were included", () => {
+    const appSettings = { ...settings, trashRetentionDays: 90, habitLockDays: null, progressionRules: { ...DEFAULT_PROGRESSION_RULES, deloadEvery: 4 } };
+    const parsed = parseBackup(JSON.stringify(createBackup(empty, appSettings)));
+    if ("error" in parsed) throw new Error(parsed.error);
+    expect(parsed.settings).toEqual(appSettings);
+
+    const older = parseBackup(JSON.stringify(createBackup(empty, settings)));
+    if ("error" in older) throw new Error(older.error);
+    expect(older.settings).toEqual(settings);
+    const broken = { ...createBackup(empty, settings), settings: { ...appSettings, progressionRules: { ...DEFAULT_PROGRESSION_RULES, ceiling: 1 } } };
+    expect(parseBackup(JSON.stringify(broken))).toHaveProperty("error");
+  });
+
+  it("rejects files that are not backups or come from a newer version", () => {
+    expect(parseBackup("not json")).toEqual({ error: "This file is not valid JSON." });
+    expect(parseBackup(JSON.stringify({ sessions: [] }))).toHaveProperty("error");
+    const newer = { ...createBackup(empty, settings), schemaVersion: 999 };
+    expect(parseBackup(JSON.stringify(newer))).toHaveProperty("error");
+  });
+
+  it("migrates old records and skips invalid ones", () => {
+    const { startAt: _s, endAt: _e, ...legacy } = session("old");
+    const file = { ...createBackup(empty, settings), schemaVersion: 1, data: { sessions: [legacy, { id: "broken" }] } };
+    const parsed = parseBackup(JSON.stringify(file));
+    if ("error" in parsed) throw new Error(parsed.error);
+    expect(parsed.data.sessions).toEqual([session("old")]);
+    expect(parsed.rejected.map(r => r.key)).toEqual(["broken"]);
+  });
+
+  it("converts the fixed daily habits of backups made before habit definitions", () => {
+    const day = { date: "2026-03-14", wakeUpOnTime: true, sleepEnough: false, exercise: false, englishPractice: false, noPorn: false, noSocialMedia: false };
+    const file = { ...createBackup(empty, settings), schemaVersion: 2, data: { sessions: [], habits: [day], targets: [] } };
+    const parsed = parseBackup(JSON.stringify(file));
+    if ("error" in parsed) throw new Error(parsed.error);
+    expect(parsed.data.habitDefinitions).toHaveLength(6);
+    expect(parsed.data.habitEntries.filter(e => e.done).map(e => e.id)).toEqual(["wakeUpOnTime:2026-03-14"]);
+  });
+});
+
+describe("diffBackup and applyBackup", () => {
+  const local: BackupData = { ...empty, sessions: [session("a"), session("b", { notes: "local" })] };
+  const incoming: BackupData = { ...empty, sessions: [session("b", { notes: "backup" }), session("c")] };
+
+  it("reports new, conflicting and local-only records", () => {
+    const diff = diffBackup(local, incoming).sessions;
+    expect(diff.added.map(s => s.id)).toEqual(["c"]);
+    expect(diff.conflicts).toMatchObject([{ key: "b", fields: ["notes"] }]);
+    expect(diff.localOnly.map(s => s.id)).toEqual(["a"]);
+  });
+
+  it("merges by id, keeping or overwriting conflicts", () => {
+    const kept = applyBackup(local, incoming, "merge", "keep").sessions;
+    expect(kept.map(s => [s.id, s.notes])).toEqual([["a", ""], ["b", "local"], ["c", ""]]);
+    expect(kept[0]).toBe(local.sessions[0]);
+
+    const overwritten = applyBackup(local, incoming, "merge", "overwrite").sessions;
+    expect(overwritten.find(s => s.id === "b")?.notes).toBe("backup");
+  });
+
+  it("replaces everything in replace mode", () => {
+    expect(applyBackup(local, incoming, "replace")).toBe(incoming);
+  });
+});
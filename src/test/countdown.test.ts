@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createCountdown, getRemainingMs, msUntilNextSecond } from "@/lib/countdown";
+
+const START = new Date("2026-01-05T09:00:00.000Z").getTime();
+
+function setVisibility(state: DocumentVisibilityState) {
+  Object.defineProperty(document, "visibilityState", { configurable: true, get: () => state });
+  document.dispatchEvent(new Event("visibilitychange"));
+}
+
+describe("countdown helpers", () => {
+  it("never reports negative remaining time", () => {
+    expect(getRemainingMs(START + 1500, START)).toBe(1500);
+    expect(getRemainingMs(START, START + 10_000)).toBe(0);
+  });
+
+  it("waits until the displayed second changes", () => {
+    expect(msUntilNextSecond(25_000)).toBe(1000);
+    expect(msUntilNextSecond(24_350)).toBe(350);
+  });
+});
+
+describe("createCountdown", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("ticks once per second from the wall clock", () => {
+    const onTick = vi.fn();
+    const stop = createCountdown({ endsAt: START + 5000, onTick, onComplete: vi.fn() });
+
+    expect(onTick).toHaveBeenLastCalledWith(5000);
+    vi.advanceTimersByTime(1000);
+    expect(onTick).toHaveBeenLastCalledWith(4000);
+    vi.advanceTimersByTime(2000);
+    expect(onTick).toHaveBeenLastCalledWith(2000);
+    stop();
+  });
+
+  it("completes exactly once at the end timestamp", () => {
+    const onComplete = vi.fn();
+    createCountdown({ endsAt: START + 3000, onTick: vi.fn(), onComplete });
+
+    vi.advanceTimersByTime(2999);
+    expect(onComplete).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(START + 3000);
+    vi.advanceTimersByTime(10_000);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not drift when timers fire late", () => {
+    const onTick = vi.fn();
+    const stop = createCountdown({ endsAt: START + 60_000, onTick, onComplete: vi.fn() });
+
+    // A throttled tab runs the pending timer ~20s late
+    vi.setSystemTime(START + 21_000);
+    vi.advanceTimersToNextTimer();
+    expect(onTick).toHaveBeenLastCalledWith(START + 60_000 - Date.now());
+    expect(Date.now() - START).toBeGreaterThanOrEqual(21_000);
+    stop();
+  });
+
+  it("completes with the scheduled end time when the tab wakes up", () => {
+    const onComplete = vi.fn();
+    createCountdown({ endsAt: START + 25 * 60_000, onTick: vi.fn(), onComplete });
+
+    setVisibility("hidden");
+    // The tab sleeps through the end of the phase without any timer firing
+    vi.setSystemTime(START + 40 * 60_000);
+    setVisibility("visible");
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(START + 25 * 60_000);
+  });
+
+  it("completes immediately if the end already passed", () => {
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+    createCountdown({ endsAt: START - 1000, onTick, onComplete });
+
+    expect(onTick).not.toHaveBeenCalled();
+    expect(onComplete).toHaveBeenCalledWith(START - 1000);
+  });
+
+  it("stops ticking and listening once stopped", () => {
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+    const stop = createCountdown({ endsAt: START + 5000, onTick, onComplete });
+    stop();
+
+    vi.setSystemTime(START + 10_000);
+    setVisibility("visible");
+    vi.advanceTimersByTime(10_000);
+    expect(onTick).toHaveBeenCalledTimes(1);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,39 @@
+import { resolveSessionTimes } from "@/lib/sessionTime";
+import { StudySession } from "@/lib/types";
+
+// A session between two clock times, past midnight if the end is earlier
+export function timedSession(date: string, startTime: string, endTime: string, durationMinutes?: number): StudySession {
+  const resolved = resolveSessionTimes(date, startTime, endTime);
+  if ("error" in resolved) throw new Error(resolved.error);
+  return {
+    id: `${date}-${startTime}`,
+    date,
+    subject: "Maths",
+    startTime,
+    endTime,
+    startAt: resolved.startAt,
+    endAt: resolved.endAt,
+    durationMinutes: durationMinutes ?? resolved.spanMinutes,
+    focusQuality: 4,
+    distractionCount: 0,
+    energyLevel: "medium",
+    notes: "",
+  };
+}
+
+// A one-hour session on 2026-03-14, for tests that only care about a few fields
+export const session = (id: string, overrides: Partial<StudySession> = {}): StudySession => ({
+  id,
+  date: "2026-03-14",
+  subject: "Maths",
+  startTime: "09:00",
+  endTime: "10:00",
+  startAt: "2026-03-14T09:00",
+  endAt: "2026-03-14T10:00",
+  durationMinutes: 60,
+  focusQuality: 4,
+  distractionCount: 0,
+  energyLevel: "high",
+  notes: "",
+  ...overrides,
+});
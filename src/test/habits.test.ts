@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { getHabitDayStatuses, getHabitStreak, getHabitValues, getMonthlyCompletion, getMostMissedWeekday, getPeriodProgress, habitEntryId, isHabitActiveOn, isHabitDayEditable, isHabitScheduledOn, meetsTarget, targetProgress } from "@/lib/habits";
+import { HabitDefinition, HabitEntry } from "@/lib/types";
+
+const habit = (id: string, overrides: Partial<HabitDefinition> = {}): HabitDefinition => ({
+  id, label: id, icon: "✅", order: 0, createdAt: "2026-03-01", archivedAt: null, ...overrides,
+});
+
+const entry = (habitId: string, date: string, done: boolean): HabitEntry => ({ id: habitEntryId(habitId, date), habitId, date, done });
+
+describe("habits", () => {
+  it("counts a habit from its creation day until the day it was archived", () => {
+    const archived = habit("read", { createdAt: "2026-03-05", archivedAt: "2026-03-10" });
+    expect(isHabitActiveOn(archived, "2026-03-04")).toBe(false);
+    expect(isHabitActiveOn(archived, "2026-03-05")).toBe(true);
+    expect(isHabitActiveOn(archived, "2026-03-10")).toBe(false);
+  });
+
+  it("counts streaks over calendar days, keeping today open", () => {
+    const run = habit("run");
+    const entries = [
+      entry("run", "2026-03-01", true),
+      entry("run", "2026-03-02", true),
+      entry("run", "2026-03-03", true),
+      // 03-04 was never recorded, which breaks the streak
+      entry("run", "2026-03-05", true),
+      entry("run", "2026-03-06", true),
+    ];
+    expect(getHabitStreak(run, entries, "2026-03-06")).toEqual({ current: 2, longest: 3, unit: "day" });
+    expect(getHabitStreak(run, entries, "2026-03-07")).toEqual({ current: 2, longest: 3, unit: "day" });
+    expect(getHabitStreak(run, entries, "2026-03-08")).toEqual({ current: 0, longest: 3, unit: "day" });
+  });
+
+  it("keeps streaks across rest days without counting them", () => {
+    const run = habit("run");
+    const entries = [
+      entry("run", "2026-03-01", true),
+      { ...entry("run", "2026-03-02", false), rest: true },
+      entry("run", "2026-03-03", true),
+    ];
+    expect(getHabitStreak(run, entries, "2026-03-03")).toEqual({ current: 2, longest: 2, unit: "day" });
+    expect(getMonthlyCompletion([run], entries, "2026-03", "2026-03-31").byHabit.run).toBe(100);
+  });
+
+  it("stops a streak on the day the habit was archived", () => {
+    const run = habit("run", { archivedAt: "2026-03-03" });
+    const entries = [entry("run", "2026-03-01", true), entry("run", "2026-03-02", true)];
+    expect(getHabitStreak(run, entries, "2026-03-10")).toEqual({ current: 2, longest: 2, unit: "day" });
+  });
+
+  it("only counts habits that were active on each day toward monthly completion", () => {
+    const habits = [habit("run"), habit("read", { createdAt: "2026-03-02" })];
+    const entries = [
+      entry("run", "2026-03-01", true),
+      entry("run", "2026-03-02", false),
+      entry("read", "2026-03-02", true),
+      entry("run", "2026-02-28", true),
+    ];
+    expect(getMonthlyCompletion(habits, entries, "2026-03", "2026-03-31")).toEqual({ overall: 67, byHabit: { run: 50, read: 100 } });
+    expect(getMonthlyCompletion(habits, [], "2026-03", "2026-03-31")).toEqual({ overall: 0, byHabit: {} });
+  });
+
+  it("checks measured values against targets and limits", () => {
+    const sleep = { unit: "hours", target: 7, comparison: "atLeast" as const };
+    const screen = { unit: "minutes", target: 30, comparison: "atMost" as const };
+    expect(meetsTarget(sleep, 7)).toBe(true);
+    expect(meetsTarget(sleep, 6.5)).toBe(false);
+    expect(meetsTarget(screen, 45)).toBe(false);
+    expect(targetProgress(sleep, 3.5)).toBe(0.5);
+    expect(targetProgress(screen, 45)).toBe(1);
+  });
+
+  it("lists measured values per date with gaps for unrecorded days", () => {
+    const entries = [{ ...entry("sleep", "2026-03-01", true), value: 8 }, entry("sleep", "2026-03-02", false)];
+    expect(getHabitValues(entries, "sleep", ["2026-03-01", "2026-03-02", "2026-03-03"])).toEqual([8, null, null]);
+  });
+
+  it("locks past days outside the lock window and never allows future days", () => {
+    expect(isHabitDayEditable("2026-03-01", "2026-03-10", null)).toBe(true);
+    expect(isHabitDayEditable("2026-03-07", "2026-03-10", 3)).toBe(true);
+    expect(isHabitDayEditable("2026-03-06", "2026-03-10", 3)).toBe(false);
+    expect(isHabitDayEditable("2026-03-11", "2026-03-10", null)).toBe(false);
+  });
+
+  it("skips unscheduled weekdays in streaks and completion", () => {
+    // 2026-03-02 is a Monday
+    const gym = habit("gym", { schedule: { type: "weekdays", days: [1, 3, 5] } });
+    const entries = [entry("gym", "2026-03-02", true), entry("gym", "2026-03-03", false), entry("gym", "2026-03-04", true)];
+    expect(isHabitScheduledOn(gym, "2026-03-03")).toBe(false);
+    expect(getHabitStreak(gym, entries, "2026-03-05")).toEqual({ current: 2, longest: 2, unit: "day" });
+    expect(getMonthlyCompletion([gym], entries, "2026-03", "2026-03-05").byHabit.gym).toBe(100);
+  });
+
+  it("counts weekly streaks for habits done a number of times per week", () => {
+    const swim = habit("swim", { createdAt: "2026-03-02", schedule: { type: "perWeek", times: 2 } });
+    const entries = [
+      entry("swim", "2026-03-02", true), entry("swim", "2026-03-05", true),
+      entry("swim", "2026-03-10", true), entry("swim", "2026-03-12", true),
+      entry("swim", "2026-03-17", true),
+    ];
+    expect(getPeriodProgress(swim, entries, "2026-03-18")).toMatchObject({ start: "2026-03-16", done: 1, required: 2 });
+    // The week of 03-16 is still open on the 18th, but broken once it is over
+    expect(getHabitStreak(swim, entries, "2026-03-18")).toEqual({ current: 2, longest: 2, unit: "week" });
+    expect(getHabitStreak(swim, entries, "2026-03-23")).toEqual({ current: 0, longest: 2, unit: "week" });
+    expect(getMonthlyCompletion([swim], entries, "2026-03", "2026-03-18")).toEqual({ overall: 100, byHabit: { swim: 100 } });
+    expect(getMonthlyCompletion([swim], entries, "2026-03", "2026-03-23").byHabit.swim).toBe(83);
+  });
+
+  it("reports day statuses for the history heatmap", () => {
+    const read = habit("read");
+    const entries = [entry("read", "2026-03-01", true), { ...entry("read", "2026-03-02", false), rest: true }];
+    const statuses = getHabitDayStatuses([read], entries, ["2026-02-28", "2026-03-01", "2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05"], "2026-03-04");
+    expect([...statuses.values()].map(s => s[0])).toEqual(["off", "done", "rest", "missed", "open", "off"]);
+  });
+
+  it("finds the weekday with the most misses", () => {
+    // 2026-03-01 is a Sunday; Mondays are missed twice, every other day once at most
+    const read = habit("read");
+    const entries = ["2026-03-01", "2026-03-03", "2026-03-04", "2026-03-05", "2026-03-06", "2026-03-07", "2026-03-08", "2026-03-10"]
+      .map(date => entry("read", date, true));
+    expect(getMostMissedWeekday([read], entries, "2026-03-11")).toEqual({ day: 1, misses: 2 });
+    expect(getMostMissedWeekday([read], [], "2026-03-01")).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { createMemoryAdapter } from "@/lib/storage";
+import { editsBetween, EMPTY_HISTORY, History, HISTORY_LIMIT, invertCommand, recordCommand } from "@/lib/history";
+import { useStudyTracker } from "@/hooks/useStudyTracker";
+import { WeeklyTarget } from "@/lib/types";
+
+const target = (weekStart: string, targetHours: number): WeeklyTarget => ({ weekStart, targetHours, actualHours: 0, met: false });
+
+describe("history", () => {
+  it("inverts a command by swapping before and after in reverse order", () => {
+    const a = target("2026-03-02", 5);
+    const b = target("2026-03-09", 6);
+    const command = { label: "Change", edits: editsBetween("targets", [a], [b]) };
+    expect(command.edits).toEqual([
+      { store: "targets", key: "2026-03-09", before: null, after: b },
+      { store: "targets", key: "2026-03-02", before: a, after: null },
+    ]);
+    expect(invertCommand(command).edits).toEqual([
+      { store: "targets", key: "2026-03-02", before: null, after: a },
+      { store: "targets", key: "2026-03-09", before: b, after: null },
+    ]);
+  });
+
+  it("drops the redo stack on a new change and caps the undo stack", () => {
+    const edit = { store: "targets" as const, key: "k", before: null, after: target("k", 1) };
+    let history: History = { undo: [], redo: [{ label: "old", edits: [edit] }] };
+    history = recordCommand(history, { label: "new", edits: [edit] });
+    expect(history.redo).toEqual([]);
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) history = recordCommand(history, { label: String(i), edits: [edit] });
+    expect(history.undo).toHaveLength(HISTORY_LIMIT);
+    expect(recordCommand(EMPTY_HISTORY, { label: "noop", edits: [] })).toBe(EMPTY_HISTORY);
+  });
+});
+
+describe("useStudyTracker undo/redo", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("undoes and redoes session deletes and habit toggles, including in storage", async () => {
+    const adapter = createMemoryAdapter();
+    const { result } = renderHook(() => useStudyTracker(adapter));
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    act(() => {
+      result.current.addSession({
+        date: "2026-03-14", subject: "Maths", startTime: "09:00", endTime: "10:00",
+        focusQuality: 3, distractionCount: 0, energyLevel: "medium", notes: "",
+      });
+    });
+    const id = result.current.sessions[0].id;
+    act(() => result.current.deleteSession(id));
+    expect(result.current.sessions).toEqual([]);
+
+    act(() => { result.current.undo(); });
+    expect(result.current.sessions.map(s => s.id)).toEqual([id]);
+    await waitFor(async () => expect(await adapter.get("sessions", id)).toBeDefined());
+
+    act(() => result.current.setHabitDone("exercise", "2026-03-14", false));
+    act(() => result.current.setHabitDone("exercise", "2026-03-14", true));
+    act(() => { result.current.undo(); });
+    expect(result.current.getHabitEntriesForDate("2026-03-14").exercise.done).toBe(false);
+
+    act(() => { result.current.redo(); });
+    expect(result.current.getHabitEntriesForDate("2026-03-14").exercise.done).toBe(true);
+    expect(result.current.canRedo).toBe(false);
+  });
+});
+
+describe("useStudyTracker merging pomodoros", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("refuses to stretch a session over one logged in between", async () => {
+    const { result } = renderHook(() => useStudyTracker(createMemoryAdapter()));
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    const session = { date: "2026-03-14", subject: "Maths", focusQuality: 3, distractionCount: 0, energyLevel: "medium" as const, notes: "" };
+    let pomodoro = { id: "" };
+    act(() => { pomodoro = result.current.addSession({ ...session, startTime: "09:00", endTime: "09:25", durationMinutes: 25 }) as { id: string }; });
+    act(() => { result.current.addSession({ ...session, startTime: "10:00", endTime: "11:00" }); });
+
+    const next = { endAt: "2026-03-14T14:25", durationMinutes: 25, focusQuality: 4, distractionCount: 0, energyLevel: "high" as const, notes: "" };
+    let merged = {};
+    act(() => { merged = result.current.extendSession(pomodoro.id, next, { confirmWarnings: true }); });
+    expect(merged).toEqual({ error: 'Overlaps "Maths" (10:00 → 11:00).' });
+    expect(result.current.sessions.find(s => s.id === pomodoro.id)?.endTime).toBe("09:25");
+
+    act(() => { merged = result.current.extendSession(pomodoro.id, { ...next, endAt: "2026-03-14T09:55" }, { confirmWarnings: true }); });
+    expect(merged).toEqual({ id: pomodoro.id });
+    expect(result.current.sessions.find(s => s.id === pomodoro.id)).toMatchObject({ endTime: "09:55", durationMinutes: 50 });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv } from "@/lib/csv";
+import { detectImporter, readExternalExport } from "@/lib/importers";
+import { planSessionImport } from "@/lib/sessionCsv";
+import { StudySession } from "@/lib/types";
+
+const NOW = new Date(2026, 3, 1, 12, 0);
+
+const TOGGL = `User,Email,Client,Project,Task,Description,Billable,Start date,Start time,End date,End time,Duration,Tags,Amount ()
+Ana,ana@example.com,,Thesis,,Literature review,No,2026-03-14,09:00:00,2026-03-14,10:30:00,01:30:00,"reading, deep",
+Ana,ana@example.com,,,,Emails,No,2026-03-14,23:30:00,2026-03-15,00:15:00,00:45:00,,`;
+
+const CLOCKIFY = `Project,Client,Description,Task,User,Group,Email,Tags,Billable,Start Date,Start Time,End Date,End Time,Duration (h),Duration (decimal)
+Maths,,Problem set,,Ana,,ana@example.com,,No,03/14/2026,02:00:00 PM,03/14/2026,03:00:00 PM,01:00:00,1.00`;
+
+const FOREST = `Start Time,End Time,Tag,Note,Tree Type,Is Success
+2026-03-14T18:00:00,2026-03-14T18:25:00,Study,Chapter 3,Cedar,True
+2026-03-14T19:00:00,2026-03-14T19:05:00,Study,,Cedar,False`;
+
+function read(csv: string) {
+  const rows = parseCsv(csv);
+  const importer = detectImporter(rows[0]);
+  if (!importer) throw new Error("not detected");
+  return { source: importer.source, ...readExternalExport(importer, rows) };
+}
+
+describe("external importers", () => {
+  it("detects each export by its headers", () => {
+    expect(read(TOGGL).source).toBe("toggl");
+    expect(read(CLOCKIFY).source).toBe("clockify");
+    expect(read(FOREST).source).toBe("forest");
+    expect(detectImporter(["date", "subject"])).toBeNull();
+  });
+
+  it("maps Toggl projects to subjects and tags to notes", () => {
+    const { rows, errors } = read(TOGGL);
+    expect(errors).toEqual([]);
+    expect(rows[0].input).toMatchObject({
+      date: "2026-03-14", subject: "Thesis", startTime: "09:00", endTime: "10:30", durationMinutes: 90,
+      notes: "Literature review · Tags: reading, deep",
+    });
+    // Without a project the description is the subject; overnight entries keep their start date
+    expect(rows[1].input).toMatchObject({ subject: "Emails", startTime: "23:30", endTime: "00:15", notes: "" });
+  });
+
+  it("reads Clockify 12-hour times and Forest trees, skipping withered ones", () => {
+    expect(read(CLOCKIFY).rows[0].input).toMatchObject({ subject: "Maths", startTime: "14:00", endTime: "15:00", durationMinutes: 60 });
+    const forest = read(FOREST);
+    expect(forest.rows.map(r => r.input)).toMatchObject([{ subject: "Study", notes: "Chapter 3", durationMinutes: 25 }]);
+    expect(forest.errors.map(e => e.row)).toEqual([3]);
+  });
+
+  it("gives the same ids on every read so a second import finds only duplicates", () => {
+    const first = read(TOGGL).rows;
+    expect(read(TOGGL).rows.map(r => r.input.id)).toEqual(first.map(r => r.input.id));
+
+    const existing = first.map(({ input }) => ({ ...input, startAt: "", endAt: "" }) as StudySession);
+    const report = planSessionImport(first, existing, NOW);
+    expect(report.ready).toEqual([]);
+    expect(report.duplicates).toHaveLength(2);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { addDays, format, parseISO } from "date-fns";
+import { getHabitInsights } from "@/lib/insights";
+import { habitEntryId } from "@/lib/habits";
+import { HabitDefinition, HabitEntry, StudySession } from "@/lib/types";
+
+const habit = (id: string, overrides: Partial<HabitDefinition> = {}): HabitDefinition => ({
+  id, label: id, icon: "✅", order: 0, createdAt: "2026-03-01", archivedAt: null, ...overrides,
+});
+
+const entry = (habitId: string, date: string, done: boolean): HabitEntry => ({ id: habitEntryId(habitId, date), habitId, date, done });
+
+const session = (date: string, startTime: string, endTime: string, overrides: Partial<StudySession> = {}): StudySession => ({
+  id: `${date}-${startTime}`, date, subject: "Math", startTime, endTime,
+  startAt: `${date}T${startTime}`, endAt: `${date}T${endTime}`,
+  durationMinutes: 0, focusQuality: 3, distractionCount: 0, energyLevel: "medium", notes: "", ...overrides,
+});
+
+const day = (i: number) => format(addDays(parseISO("2026-03-01"), i), "yyyy-MM-dd");
+
+// Ten days: exercise on even days, with two hours of sharp work on those days and one distracted hour otherwise
+const entries = Array.from({ length: 10 }, (_, i) => entry("exercise", day(i), i % 2 === 0));
+const sessions = Array.from({ length: 10 }, (_, i) => i % 2 === 0
+  ? session(day(i), "09:00", "11:00", { durationMinutes: 120 + i, focusQuality: 5 })
+  : session(day(i), "09:00", "10:00", { durationMinutes: 60 + i, focusQuality: 2, distractionCount: 4 }));
+
+describe("habit insights", () => {
+  it("compares deep work on days a habit was done and skipped", () => {
+    const [insight] = getHabitInsights([habit("exercise")], entries, sessions, "2026-03-11");
+    const hours = insight.effects.find(e => e.lag === "sameDay" && e.metric === "hours")!;
+    expect(hours).toMatchObject({ doneDays: 5, skippedDays: 5 });
+    expect(hours.difference).toBeCloseTo((124 - 65) / 60);
+    expect(hours.effectSize).toBeGreaterThan(0.8);
+
+    const focus = insight.effects.find(e => e.lag === "sameDay" && e.metric === "focusQuality")!;
+    expect(focus).toMatchObject({ doneMean: 5, skippedMean: 2, difference: 3 });
+    const distractions = insight.effects.find(e => e.lag === "sameDay" && e.metric === "distractionCount")!;
+    expect(distractions.difference).toBe(-4);
+  });
+
+  it("compares the next day, skipping days whose next day is not over yet", () => {
+    const [insight] = getHabitInsights([habit("exercise")], entries, sessions, "2026-03-11");
+    const focus = insight.effects.find(e => e.lag === "nextDay" && e.metric === "focusQuality")!;
+    // The day after an exercise day is a low-focus day here, and 03-10 has no finished next day
+    expect(focus).toMatchObject({ doneMean: 2, skippedMean: 5, doneDays: 5, skippedDays: 4 });
+    expect(focus.effectSize).toBeNull();
+  });
+
+  it("leaves out rest days, today and days before the first session", () => {
+    const withRest = [...entries.slice(0, 9), { ...entry("exercise", day(9), false), rest: true }];
+    const [insight] = getHabitInsights([habit("exercise", { createdAt: "2026-02-20" })], withRest, sessions.slice(1), "2026-03-11");
+    const hours = insight.effects.find(e => e.lag === "sameDay" && e.metric === "hours")!;
+    // From 03-02 (first session) through 03-09, as yesterday was a rest day
+    expect(hours).toMatchObject({ doneDays: 4, skippedDays: 4 });
+  });
+
+  it("counts days without sessions as zero hours but not toward focus", () => {
+    const [insight] = getHabitInsights([habit("read")], [entry("read", "2026-03-02", true)], [session("2026-03-01", "09:00", "10:00", { durationMinutes: 60 })], "2026-03-04");
+    const hours = insight.effects.find(e => e.lag === "sameDay" && e.metric === "hours")!;
+    expect(hours).toMatchObject({ doneDays: 1, skippedDays: 2, doneMean: 0, skippedMean: 0.5 });
+    const focus = insight.effects.find(e => e.lag === "sameDay" && e.metric === "focusQuality")!;
+    expect(focus).toMatchObject({ doneDays: 0, skippedDays: 1, difference: null });
+  });
+});
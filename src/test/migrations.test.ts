@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createMemoryAdapter, loadTrackerData, SCHEMA_VERSION, SCHEMA_VERSION_KEY, upgradeData, upgradeRecords } from "@/lib/storage";
+import { DEFAULT_HABITS } from "@/lib/habits";
+
+const v1Session = {
+  id: "s1",
+  date: "2026-03-14",
+  subject: "Maths",
+  startTime: "23:00",
+  endTime: "01:00",
+  durationMinutes: 120,
+  focusQuality: 4,
+  distractionCount: 1,
+  energyLevel: "high",
+  notes: "",
+};
+
+describe("upgradeRecords", () => {
+  it("backfills timestamps on version 1 sessions", () => {
+    const { valid, quarantined } = upgradeRecords("sessions", [v1Session], 1);
+    expect(quarantined).toEqual([]);
+    expect(valid[0]).toMatchObject({ startAt: "2026-03-14T23:00", endAt: "2026-03-15T01:00" });
+  });
+
+  it("gives version 1 sessions longer than an overnight stretch an empty span", () => {
+    const { valid } = upgradeRecords("sessions", [{ ...v1Session, startTime: "09:00", endTime: "08:00" }], 1);
+    expect(valid[0]).toMatchObject({ startAt: "2026-03-14T09:00", endAt: "2026-03-14T09:00" });
+  });
+
+  it("quarantines records that fail validation instead of dropping them", () => {
+    const broken = { ...v1Session, id: "s2", focusQuality: "great" };
+    const { valid, quarantined } = upgradeRecords("sessions", [v1Session, broken, null], 1);
+    expect(valid).toHaveLength(1);
+    expect(quarantined).toHaveLength(2);
+    const [unreadable, invalid] = quarantined;
+    expect(invalid).toMatchObject({ store: "sessions", key: "s2", record: broken, schemaVersion: 1 });
+    expect(invalid.reason).toContain("focusQuality");
+    expect(unreadable.key).toBeNull();
+  });
+});
+
+describe("upgradeData", () => {
+  const legacyDay = {
+    date: "2026-03-10", wakeUpOnTime: true, sleepEnough: false, exercise: true,
+    englishPractice: false, noPorn: true, noSocialMedia: false,
+  };
+
+  it("splits the fixed daily habits into definitions and per-habit entries", () => {
+    const { data, quarantined } = upgradeData({ habits: [legacyDay, { ...legacyDay, date: "2026-03-11" }] }, 2);
+    expect(quarantined).toEqual([]);
+    expect(data.habitDefinitions.map(h => h.id)).toEqual(DEFAULT_HABITS.map(h => h.id));
+    expect(data.habitDefinitions[0]).toMatchObject({ createdAt: "2026-03-10", archivedAt: null, order: 0 });
+    expect(data.habitEntries).toHaveLength(12);
+    expect(data.habitEntries.find(e => e.id === "exercise:2026-03-10")).toEqual({
+      id: "exercise:2026-03-10", habitId: "exercise", date: "2026-03-10", done: true,
+    });
+  });
+
+  it("quarantines legacy habit days it cannot convert", () => {
+    const { data, quarantined } = upgradeData({ habits: [legacyDay, { exercise: true }] }, 2);
+    expect(data.habitEntries).toHaveLength(6);
+    expect(quarantined).toMatchObject([{ store: "habits", key: null, record: { exercise: true } }]);
+  });
+
+  it("turns on the relapse journal for the default abstinence habits unless already set", () => {
+    const habit = (id: string, extra = {}) => ({ id, label: id, icon: "✅", order: 0, createdAt: "2026-03-01", archivedAt: null, ...extra });
+    const { data } = upgradeData({ habitDefinitions: [habit("noPorn"), habit("noSocialMedia", { tracksRelapses: false }), habit("exercise")] }, 3);
+    expect(data.habitDefinitions.map(h => h.tracksRelapses)).toEqual([true, false, undefined]);
+  });
+});
+
+describe("loadTrackerData", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("upgrades unversioned data, stamps the version and sets bad records aside", async () => {
+    const adapter = createMemoryAdapter({
+      sessions: [v1Session, { ...v1Session, id: "bad", durationMinutes: "lots" }] as never,
+    });
+
+    const data = await loadTrackerData(adapter);
+    expect(data.sessions.map(s => s.id)).toEqual(["s1"]);
+    expect(data.quarantine.map(q => q.key)).toEqual(["bad"]);
+    expect((await adapter.get("sessions", "s1"))?.endAt).toBe("2026-03-15T01:00");
+    expect(await adapter.get("sessions", "bad")).toBeUndefined();
+    expect(await adapter.get("meta", SCHEMA_VERSION_KEY)).toEqual({ key: SCHEMA_VERSION_KEY, value: SCHEMA_VERSION });
+  });
+
+  it("leaves data from a newer version at its version", async () => {
+    const adapter = createMemoryAdapter({ meta: [{ key: SCHEMA_VERSION_KEY, value: SCHEMA_VERSION + 1 }] });
+    await loadTrackerData(adapter);
+    expect((await adapter.get("meta", SCHEMA_VERSION_KEY))?.value).toBe(SCHEMA_VERSION + 1);
+  });
+
+  it("moves legacy habits out of their store and seeds default habits on a fresh install", async () => {
+    const adapter = createMemoryAdapter({
+      habits: [{ date: "2026-03-10", wakeUpOnTime: true, sleepEnough: true, exercise: true, englishPractice: true, noPorn: true, noSocialMedia: true }],
+    });
+    const data = await loadTrackerData(adapter);
+    expect(data.habitEntries.every(e => e.done)).toBe(true);
+    expect(await adapter.getAll("habits")).toEqual([]);
+    expect(await adapter.getAll("habitEntries")).toHaveLength(6);
+
+    const fresh = await loadTrackerData(createMemoryAdapter());
+    expect(fresh.habitDefinitions).toHaveLength(DEFAULT_HABITS.length);
+    expect(fresh.habitEntries).toEqual([]);
+  });
+});
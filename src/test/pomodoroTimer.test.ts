@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { format } from "date-fns";
+import { usePomodoroTimer } from "@/hooks/usePomodoroTimer";
+import { DEFAULT_PROFILES } from "@/lib/timerProfiles";
+
+const profile = { ...DEFAULT_PROFILES[0], autoStartNext: true };
+
+// A running 25-minute work phase as another session of the app left it
+function storeTimer(state: { endsAt: number; workStartedAt: number }) {
+  localStorage.setItem("deepwork-timer", JSON.stringify({
+    mode: "work", remainingMs: 0, phaseMs: 25 * 60_000, sessionsCompleted: 0, totalFocusMinutes: 0,
+    statsDate: format(new Date(), "yyyy-MM-dd"), currentTask: "Maths", soundEnabled: false, ownerId: null, ...state,
+  }));
+}
+
+describe("usePomodoroTimer", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("logs one pomodoro and stops when auto-started phases ran out while the page was closed", async () => {
+    // A work phase that ended two days ago, as after a laptop was shut over the weekend
+    const endsAt = Date.now() - 2 * 24 * 60 * 60_000;
+    storeTimer({ endsAt, workStartedAt: endsAt - 25 * 60_000 });
+    const { result } = renderHook(() => usePomodoroTimer({ profile }));
+
+    await waitFor(() => expect(result.current.mode).toBe("shortBreak"));
+    expect(result.current.isRunning).toBe(false);
+    expect(result.current.pendingReviews).toEqual([{ task: "Maths", minutes: 25, startedAt: endsAt - 25 * 60_000, endedAt: endsAt }]);
+    // It ended two days ago, so today's counters stay as they were
+    expect(result.current.sessionsCompleted).toBe(0);
+    expect(result.current.totalFocusMinutes).toBe(0);
+  });
+
+  it("credits today's counters for a phase that ended today", async () => {
+    const endsAt = Date.now() - 1000;
+    storeTimer({ endsAt, workStartedAt: endsAt - 25 * 60_000 });
+    const { result } = renderHook(() => usePomodoroTimer({ profile }));
+
+    await waitFor(() => expect(result.current.sessionsCompleted).toBe(1));
+    expect(result.current.totalFocusMinutes).toBe(25);
+  });
+
+  it("keeps pomodoros waiting for review across a reload until they are reviewed", async () => {
+    const endsAt = Date.now() - 1000;
+    storeTimer({ endsAt, workStartedAt: endsAt - 25 * 60_000 });
+    const first = renderHook(() => usePomodoroTimer({ profile }));
+    await waitFor(() => expect(first.result.current.pendingReviews).toHaveLength(1));
+    first.unmount();
+
+    const { result } = renderHook(() => usePomodoroTimer({ profile }));
+    expect(result.current.pendingReviews).toHaveLength(1);
+    act(() => result.current.finishReview("session-1"));
+    expect(result.current.pendingReviews).toEqual([]);
+    expect(result.current.lastLoggedSessionId).toBe("session-1");
+    expect(JSON.parse(localStorage.getItem("deepwork-timer") ?? "{}")).toMatchObject({ pendingReviews: [], lastLoggedSessionId: "session-1" });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { advanceProgression, closeWeek, DEFAULT_PROGRESSION_RULES, describeProgression, getWeekProgress, hoursByWeek, isDeloadWeek, MIN_TARGET_HOURS, nextTargetHours, progressionRulesSchema, weeklyHours, weekStartOf } from "@/lib/progression";
+import { createMemoryAdapter } from "@/lib/storage";
+import { useStudyTracker } from "@/hooks/useStudyTracker";
+import { WeeklyTarget } from "@/lib/types";
+import { timedSession as session } from "@/test/fixtures";
+
+// 2026-03-02 and 2026-03-09 are Mondays
+
+const target = (weekStart: string, targetHours: number, extra: Partial<WeeklyTarget> = {}): WeeklyTarget => ({
+  weekStart, targetHours, actualHours: 0, met: false, ...extra,
+});
+
+// Seven 5-hour days in the week of 03-02
+const fullWeek = Array.from({ length: 7 }, (_, i) => session(`2026-03-0${i + 2}`, "08:00", "13:00", 300));
+const now = new Date(2026, 2, 11, 12, 0);
+
+describe("weekly hours", () => {
+  it("starts weeks on Monday", () => {
+    expect(weekStartOf(new Date(2026, 2, 8))).toBe("2026-03-02");
+    expect(weekStartOf(new Date(2026, 2, 9))).toBe("2026-03-09");
+  });
+
+  it("counts only the part of an overnight session inside the week", () => {
+    const overnight = session("2026-03-08", "23:00", "01:00", 120);
+    expect(weeklyHours([overnight], "2026-03-02")).toBe(1);
+    expect(weeklyHours([overnight], "2026-03-09")).toBe(1);
+  });
+
+  it("buckets the same hours by week in one pass", () => {
+    const overnight = session("2026-03-08", "23:00", "01:00", 120);
+    expect(hoursByWeek([...fullWeek, overnight])).toEqual(new Map([["2026-03-02", 36], ["2026-03-09", 1]]));
+  });
+});
+
+describe("closing a week", () => {
+  it("records the daily average and whether the target was met", () => {
+    const closed = closeWeek(target("2026-03-02", 5), fullWeek, now);
+    expect(closed).toMatchObject({ actualHours: 5, met: true, closedAt: now.toISOString() });
+    expect(closeWeek(target("2026-03-02", 5.5), fullWeek, now)).toMatchObject({ actualHours: 5, met: false });
+  });
+});
+
+describe("next target", () => {
+  const rules = DEFAULT_PROGRESSION_RULES;
+
+  it("increases after a met week, up to the ceiling", () => {
+    expect(nextTargetHours(target("w", 5, { met: true }), rules)).toBe(5.5);
+    expect(nextTargetHours(target("w", 9.8, { met: true }), rules)).toBe(10);
+  });
+
+  it("holds or reduces after a missed week", () => {
+    expect(nextTargetHours(target("w", 6), rules)).toBe(6);
+    expect(nextTargetHours(target("w", 6), { ...rules, decrement: 0.5 })).toBe(5.5);
+    expect(nextTargetHours(target("w", 0.7), { ...rules, decrement: 0.5 })).toBe(MIN_TARGET_HOURS);
+  });
+
+  it("carries on from the planned target after a week set by hand", () => {
+    expect(nextTargetHours(target("w", 2, { met: true, plannedHours: 6, overrideReason: "Exam week" }), rules)).toBe(6.5);
+    expect(nextTargetHours(target("w", 2, { plannedHours: 6 }), { ...rules, decrement: 0.5 })).toBe(5.5);
+  });
+});
+
+describe("advanceProgression", () => {
+  const rules = DEFAULT_PROGRESSION_RULES;
+
+  it("starts the first week at the starting target", () => {
+    expect(advanceProgression([], [], rules, now)).toEqual([target("2026-03-09", 5)]);
+  });
+
+  it("closes the finished week and raises the target only when it was met", () => {
+    expect(advanceProgression([target("2026-03-02", 5)], fullWeek, rules, now)).toEqual([
+      { ...target("2026-03-02", 5), actualHours: 5, met: true, closedAt: now.toISOString() },
+      target("2026-03-09", 5.5),
+    ]);
+    const [, missed] = advanceProgression([target("2026-03-02", 5)], fullWeek.slice(1), rules, now);
+    expect(missed).toEqual(target("2026-03-09", 5));
+  });
+
+  it("backfills weeks the app was not opened in", () => {
+    const later = new Date(2026, 2, 25);
+    const updates = advanceProgression([target("2026-03-02", 5)], fullWeek, { ...rules, decrement: 1 }, later);
+    expect(updates.map(t => [t.weekStart, t.targetHours, t.met, !!t.closedAt])).toEqual([
+      ["2026-03-02", 5, true, true],
+      ["2026-03-09", 5.5, false, true],
+      ["2026-03-16", 4.5, false, true],
+      ["2026-03-23", 3.5, false, false],
+    ]);
+  });
+
+  it("changes nothing once the current week exists and past weeks are closed", () => {
+    const closed = closeWeek(target("2026-03-02", 5), fullWeek, now);
+    expect(advanceProgression([closed, target("2026-03-09", 5.5)], fullWeek, rules, now)).toEqual([]);
+  });
+
+  it("closes open past weeks without touching the current week's target", () => {
+    const updates = advanceProgression([target("2026-03-02", 5), target("2026-03-09", 7)], fullWeek, rules, now);
+    expect(updates).toEqual([{ ...target("2026-03-02", 5), actualHours: 5, met: true, closedAt: now.toISOString() }]);
+  });
+
+  it("recounts last week when a session is added to it after it was closed", () => {
+    // Opened on Monday morning before Sunday evening's session was logged
+    const monday = new Date(2026, 2, 9, 8, 0);
+    const first = advanceProgression([target("2026-03-02", 5)], fullWeek.slice(0, 6), rules, monday);
+    expect(first.map(t => [t.weekStart, t.targetHours, t.met])).toEqual([["2026-03-02", 5, false], ["2026-03-09", 5, false]]);
+
+    expect(advanceProgression(first, fullWeek, rules, now)).toEqual([
+      { ...first[0], actualHours: 5, met: true },
+      target("2026-03-09", 5.5),
+    ]);
+  });
+
+  it("leaves closed weeks alone unless their hours changed, keeping target and closing time", () => {
+    const closedAt = "2026-03-02T08:00:00.000Z";
+    const earlier = { ...target("2026-02-23", 4), closedAt };
+    const closed = { ...target("2026-03-02", 5), actualHours: 5, met: true, closedAt };
+    const current = target("2026-03-09", 5.5);
+    expect(advanceProgression([earlier, closed, current], fullWeek, rules, now)).toEqual([]);
+
+    // A session added to an older week recounts only that week; this week's target stays
+    const late = session("2026-02-28", "08:00", "15:00", 420);
+    expect(advanceProgression([earlier, closed, current], [...fullWeek, late], rules, now)).toEqual([
+      { ...earlier, actualHours: 1 },
+    ]);
+  });
+
+  it("moves only the planned target of a week set by hand when last week is recounted", () => {
+    const closed = { ...target("2026-03-02", 5), closedAt: now.toISOString() };
+    const overridden = target("2026-03-09", 2, { plannedHours: 5, overrideReason: "Travel" });
+    const [, replanned] = advanceProgression([closed, overridden], fullWeek, rules, now);
+    expect(replanned).toEqual({ ...overridden, plannedHours: 5.5 });
+  });
+});
+
+describe("week progress", () => {
+  it("spreads what is left of the weekly goal over the remaining days", () => {
+    // Wednesday, with 10 of 35 hours done: 25 hours over 5 days
+    const progress = getWeekProgress(target("2026-03-09", 5), [session("2026-03-09", "08:00", "18:00", 600)], now);
+    expect(progress).toEqual({ totalHours: 10, goalHours: 35, percent: 29, daysLeft: 5, neededPerDay: 5 });
+  });
+});
+
+describe("configurable rules", () => {
+  const rules = { ...DEFAULT_PROGRESSION_RULES, deloadEvery: 3 };
+
+  it("lightens every Nth week and resumes the usual target after it", () => {
+    expect(isDeloadWeek("2026-03-16", "2026-03-02", rules)).toBe(true);
+    expect(isDeloadWeek("2026-03-23", "2026-03-02", rules)).toBe(false);
+    // Both weeks met: 5 hours a day, then 5.5
+    const sessions = [...fullWeek, ...Array.from({ length: 7 }, (_, i) => session(`2026-03-${String(9 + i).padStart(2, "0")}`, "08:00", "13:30", 330))];
+    const met = [closeWeek(target("2026-03-02", 5), sessions, now), closeWeek(target("2026-03-09", 5.5), sessions, now)];
+    const [deload] = advanceProgression(met, sessions, rules, new Date(2026, 2, 16));
+    expect(deload).toEqual({ ...target("2026-03-16", 4.2), deloadFrom: 6 });
+    const [after] = advanceProgression([...met, closeWeek(deload, sessions, now)], sessions, rules, new Date(2026, 2, 23));
+    expect(after).toEqual(target("2026-03-23", 6));
+  });
+
+  it("rejects rules that cannot work", () => {
+    expect(progressionRulesSchema.safeParse(rules).success).toBe(true);
+    expect(progressionRulesSchema.safeParse({ ...rules, ceiling: 4 }).success).toBe(false);
+    expect(progressionRulesSchema.safeParse({ ...rules, deloadEvery: 1 }).success).toBe(false);
+    expect(progressionRulesSchema.safeParse({ ...rules, startHours: 20 }).success).toBe(false);
+  });
+
+  it("explains the active rules", () => {
+    expect(describeProgression(DEFAULT_PROGRESSION_RULES)).toEqual([
+      "Your target starts at 5 hours a day.",
+      "When a week ends with the target met, it goes up by 30 minutes.",
+      "A missed week keeps the target where it is.",
+      "The target never goes above 10 hours a day.",
+    ]);
+    expect(describeProgression({ ...rules, decrement: 1 })).toContain("A missed week lowers it by 1 hour, to no less than 30 minutes.");
+    expect(describeProgression(rules)[4]).toMatch(/^Every 3 weeks, a deload week asks for 70%/);
+  });
+});
+
+describe("target overrides", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("overrides this week's target with a reason and can restore the planned one", async () => {
+    const { result } = renderHook(() => useStudyTracker(createMemoryAdapter()));
+    await waitFor(() => expect(result.current.targets).toHaveLength(1));
+
+    act(() => result.current.overrideWeekTarget(3, "Exam week"));
+    expect(result.current.getCurrentWeekTarget()).toMatchObject({ targetHours: 3, plannedHours: 5, overrideReason: "Exam week" });
+
+    act(() => result.current.clearWeekTargetOverride());
+    const restored = result.current.getCurrentWeekTarget();
+    expect(restored.targetHours).toBe(5);
+    expect(restored).not.toHaveProperty("overrideReason");
+  });
+
+  it("starts from saved rules", async () => {
+    localStorage.setItem("deepwork-progression-rules", JSON.stringify({ ...DEFAULT_PROGRESSION_RULES, startHours: 3 }));
+    const { result } = renderHook(() => useStudyTracker(createMemoryAdapter()));
+    await waitFor(() => expect(result.current.targets).toHaveLength(1));
+    expect(result.current.getCurrentWeekTarget().targetHours).toBe(3);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { getRelapseStats, keepRelapses, listRelapses, timeOfDay } from "@/lib/relapses";
+import { HabitEntry, RelapseLog } from "@/lib/types";
+
+const relapse = (id: string, time: string, trigger: RelapseLog["trigger"], mood: number): RelapseLog => ({
+  id, time, trigger, context: "", mood, notes: "",
+});
+
+const entries: HabitEntry[] = [
+  { id: "noPorn:2026-03-02", habitId: "noPorn", date: "2026-03-02", done: false, relapses: [relapse("a", "23:30", "boredom", 2), relapse("b", "01:15", "tiredness", 1)] },
+  { id: "noSocialMedia:2026-03-03", habitId: "noSocialMedia", date: "2026-03-03", done: false, relapses: [relapse("c", "22:00", "boredom", 3)] },
+  { id: "exercise:2026-03-03", habitId: "exercise", date: "2026-03-03", done: true },
+];
+
+describe("relapses", () => {
+  it("lists relapses of the chosen habits, newest first", () => {
+    expect(listRelapses(entries, ["noPorn", "noSocialMedia"]).map(r => r.id)).toEqual(["c", "a", "b"]);
+    expect(listRelapses(entries, ["noSocialMedia"])).toMatchObject([{ id: "c", habitId: "noSocialMedia", date: "2026-03-03" }]);
+  });
+
+  it("counts triggers, times of day and weekdays", () => {
+    expect(timeOfDay("05:59")).toBe("night");
+    expect(timeOfDay("18:00")).toBe("evening");
+    // 2026-03-02 is a Monday
+    const stats = getRelapseStats(listRelapses(entries, ["noPorn", "noSocialMedia"]));
+    expect(stats.total).toBe(3);
+    expect(stats.triggers).toEqual([{ trigger: "boredom", count: 2 }, { trigger: "tiredness", count: 1 }]);
+    expect(stats.timesOfDay).toEqual([
+      { time: "night", count: 1 }, { time: "morning", count: 0 }, { time: "afternoon", count: 0 }, { time: "evening", count: 2 },
+    ]);
+    expect(stats.weekdays).toEqual([0, 2, 1, 0, 0, 0, 0]);
+    expect(stats.averageMood).toBe(2);
+    expect(getRelapseStats([]).averageMood).toBeNull();
+  });
+
+  it("keeps logged relapses when a check-in replaces the entry, and the day not done", () => {
+    const [logged] = entries;
+    expect(keepRelapses({ id: logged.id, habitId: "noPorn", date: "2026-03-02", done: true }, logged)).toMatchObject({ done: false, relapses: logged.relapses });
+    expect(keepRelapses(null, logged)).toMatchObject({ done: false, relapses: logged.relapses });
+    expect(keepRelapses(null, entries[2])).toBeNull();
+  });
+});
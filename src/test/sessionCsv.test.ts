@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { DATE_FORMATS, detectFormats, filterSessions, guessMapping, planCsvImport, sessionsToCsv } from "@/lib/sessionCsv";
+import { session } from "@/test/fixtures";
+
+const NOW = new Date(2026, 3, 1, 12, 0);
+
+describe("csv", () => {
+  it("round-trips quoted fields with commas, quotes and newlines", () => {
+    const rows = [["a", "b"], ['say "hi", then', "line\nbreak"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("skips a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFdate,subject\r\n\r\n2026-03-14,Maths\r\n")).toEqual([["date", "subject"], ["2026-03-14", "Maths"]]);
+  });
+});
+
+describe("session export", () => {
+  it("filters by date range and subject and writes one row per session", () => {
+    const sessions = [session("a"), session("b", { date: "2026-03-20", subject: "Physics" }), session("c", { date: "2026-03-10" })];
+    const selected = filterSessions(sessions, { from: "2026-03-12", to: "2026-03-31", subjects: ["Maths"] });
+    expect(selected.map(s => s.id)).toEqual(["a"]);
+    const rows = parseCsv(sessionsToCsv(selected));
+    expect(rows[0]).toContain("subject");
+    expect(rows[1]).toEqual(["a", "2026-03-14", "Maths", "09:00", "10:00", "60", "4", "0", "high", ""]);
+  });
+});
+
+describe("session import", () => {
+  it("guesses columns from common header names", () => {
+    expect(guessMapping(["Day", "Task", "Start", "End", "Notes"])).toEqual({ date: 0, subject: 1, startTime: 2, endTime: 3, notes: 4 });
+  });
+
+  it("detects date formats and flags ambiguous ones", () => {
+    expect(detectFormats(["14/03/2026", "02/03/2026"], DATE_FORMATS)).toEqual(["dd/MM/yyyy"]);
+    expect(detectFormats(["03/04/2026"], DATE_FORMATS)).toEqual(["dd/MM/yyyy", "MM/dd/yyyy"]);
+  });
+
+  it("reports ready rows, duplicates and errors without saving", () => {
+    const rows = [
+      ["a", "14/03/2026", "Maths", "9:00 AM", "10:00 AM"],
+      ["x", "15/03/2026", "Physics", "9:00 AM", "10:30 AM"],
+      ["", "15/03/2026", "Physics", "10:00 AM", "11:00 AM"],
+      ["", "99/99/2026", "Physics", "9:00 AM", "10:00 AM"],
+      ["", "16/03/2026", "", "9:00 AM", "10:00 AM"],
+    ];
+    const mapping = { id: 0, date: 1, subject: 2, startTime: 3, endTime: 4 };
+    const report = planCsvImport(rows, mapping, { date: "dd/MM/yyyy", time: "h:mm a" }, [session("a")], NOW);
+
+    expect(report.duplicates).toEqual([{ row: 2, id: "a" }]);
+    expect(report.ready.map(r => r.row)).toEqual([3]);
+    expect(report.ready[0].input).toMatchObject({ id: "x", date: "2026-03-15", startTime: "09:00", endTime: "10:30", focusQuality: 3 });
+    // Line 4 overlaps the row before it, which would only be caught at save time otherwise
+    expect(report.errors.map(e => e.row)).toEqual([4, 5, 6]);
+  });
+});
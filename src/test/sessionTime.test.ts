@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { minutesOnDate, resolveSessionTimes } from "@/lib/sessionTime";
+import { timedSession as session } from "@/test/fixtures";
+
+describe("resolveSessionTimes", () => {
+  it("rolls an earlier end time over to the next day", () => {
+    expect(resolveSessionTimes("2026-03-14", "23:00", "01:30")).toEqual({
+      startAt: "2026-03-14T23:00",
+      endAt: "2026-03-15T01:30",
+      spanMinutes: 150,
+    });
+  });
+
+  it("rejects empty and implausibly long overnight sessions", () => {
+    expect(resolveSessionTimes("2026-03-14", "09:00", "09:00")).toHaveProperty("error");
+    expect(resolveSessionTimes("2026-03-14", "14:00", "13:00")).toHaveProperty("error");
+  });
+});
+
+describe("minutesOnDate", () => {
+  it("splits a session past midnight across both days", () => {
+    const sessions = [session("2026-03-14", "23:00", "01:30")];
+    expect(minutesOnDate(sessions, "2026-03-14")).toBe(60);
+    expect(minutesOnDate(sessions, "2026-03-15")).toBe(90);
+  });
+
+  it("scales timer sessions whose focused minutes exclude pauses", () => {
+    const sessions = [session("2026-03-14", "23:30", "00:30", 50)];
+    expect(minutesOnDate(sessions, "2026-03-14")).toBe(25);
+    expect(minutesOnDate(sessions, "2026-03-15")).toBe(25);
+  });
+});
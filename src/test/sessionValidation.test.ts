@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { getDataHealthIssues, validateSession } from "@/lib/sessionValidation";
+import { resolveSessionTimes } from "@/lib/sessionTime";
+import { StudySession } from "@/lib/types";
+
+const NOW = new Date(2026, 2, 20, 12, 0);
+
+function session(id: string, date: string, startTime: string, endTime: string): StudySession {
+  const resolved = resolveSessionTimes(date, startTime, endTime);
+  if ("error" in resolved) throw new Error(resolved.error);
+  return {
+    id,
+    date,
+    subject: id,
+    startTime,
+    endTime,
+    startAt: resolved.startAt,
+    endAt: resolved.endAt,
+    durationMinutes: resolved.spanMinutes,
+    focusQuality: 3,
+    distractionCount: 0,
+    energyLevel: "medium",
+    notes: "",
+  };
+}
+
+describe("validateSession", () => {
+  it("blocks overlaps with existing sessions", () => {
+    const existing = [session("a", "2026-03-14", "09:00", "11:00")];
+    const issues = validateSession(session("b", "2026-03-14", "10:30", "12:00"), existing, NOW);
+    expect(issues).toEqual([expect.objectContaining({ severity: "error", code: "overlap", sessionIds: ["b", "a"] })]);
+  });
+
+  it("allows back-to-back sessions", () => {
+    const existing = [session("a", "2026-03-14", "09:00", "11:00")];
+    expect(validateSession(session("b", "2026-03-14", "11:00", "12:00"), existing, NOW)).toEqual([]);
+  });
+
+  it("ignores the session being edited", () => {
+    const a = session("a", "2026-03-14", "09:00", "11:00");
+    expect(validateSession({ ...a, endTime: "11:30", endAt: "2026-03-14T11:30" }, [a], NOW)).toEqual([]);
+  });
+
+  it("warns about implausible daily totals", () => {
+    const existing = [session("a", "2026-03-14", "06:00", "16:00")];
+    const issues = validateSession(session("b", "2026-03-14", "17:00", "20:00"), existing, NOW);
+    expect(issues).toEqual([expect.objectContaining({ severity: "warning", code: "daily-total", date: "2026-03-14" })]);
+  });
+
+  it("rejects sessions starting in the future and warns when they end in it", () => {
+    expect(validateSession(session("a", "2026-03-21", "09:00", "10:00"), [], NOW)[0]).toMatchObject({ severity: "error", code: "future" });
+    expect(validateSession(session("b", "2026-03-20", "11:00", "13:00"), [], NOW)[0]).toMatchObject({ severity: "warning", code: "future" });
+  });
+});
+
+describe("getDataHealthIssues", () => {
+  it("reports each overlapping pair once", () => {
+    const sessions = [
+      session("a", "2026-03-14", "09:00", "11:00"),
+      session("b", "2026-03-14", "10:00", "12:00"),
+      session("c", "2026-03-15", "09:00", "10:00"),
+    ];
+    const issues = getDataHealthIssues(sessions, NOW);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: "overlap", date: "2026-03-14" });
+  });
+});
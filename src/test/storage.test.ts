@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { applyRecordChanges, createMemoryAdapter, diffRecords, LEGACY_KEYS, migrateFromLocalStorage } from "@/lib/storage";
+import { useStudyTracker } from "@/hooks/useStudyTracker";
+import { WeeklyTarget } from "@/lib/types";
+
+const legacySession = {
+  id: "s1",
+  date: "2026-03-14",
+  subject: "Maths",
+  startTime: "09:00",
+  endTime: "10:30",
+  durationMinutes: 90,
+  focusQuality: 4,
+  distractionCount: 1,
+  energyLevel: "high",
+  notes: "",
+};
+
+describe("migrateFromLocalStorage", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("copies legacy arrays once and removes the old keys", async () => {
+    localStorage.setItem(LEGACY_KEYS.sessions, JSON.stringify([legacySession]));
+    localStorage.setItem(LEGACY_KEYS.targets, JSON.stringify([{ weekStart: "2026-03-09", targetHours: 5, actualHours: 0, met: false }]));
+    const adapter = createMemoryAdapter();
+
+    await migrateFromLocalStorage(adapter);
+    expect(await adapter.getAll("sessions")).toEqual([legacySession]);
+    expect(await adapter.getAll("targets")).toHaveLength(1);
+    expect(localStorage.getItem(LEGACY_KEYS.sessions)).toBeNull();
+
+    // A stale key reappearing later must not be imported again
+    localStorage.setItem(LEGACY_KEYS.sessions, JSON.stringify([{ ...legacySession, id: "s2" }]));
+    await migrateFromLocalStorage(adapter);
+    expect(await adapter.getAll("sessions")).toHaveLength(1);
+  });
+});
+
+describe("diffRecords", () => {
+  it("writes only changed records and deletes removed ones", () => {
+    const a: WeeklyTarget = { weekStart: "2026-03-02", targetHours: 5, actualHours: 0, met: false };
+    const b: WeeklyTarget = { weekStart: "2026-03-09", targetHours: 5.5, actualHours: 0, met: false };
+    const c: WeeklyTarget = { weekStart: "2026-03-16", targetHours: 6, actualHours: 0, met: false };
+    const bUpdated = { ...b, actualHours: 4 };
+
+    expect(diffRecords("targets", [a, b], [bUpdated, c])).toEqual({ put: [bUpdated, c], delete: ["2026-03-02"] });
+    expect(applyRecordChanges("targets", [a, b], { put: [bUpdated, c], delete: ["2026-03-02"] })).toEqual([bUpdated, c]);
+  });
+});
+
+describe("useStudyTracker persistence", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("loads from the adapter and writes new sessions back per record", async () => {
+    const adapter = createMemoryAdapter({ sessions: [{ ...legacySession, energyLevel: "high", startAt: "2026-03-14T09:00", endAt: "2026-03-14T10:30" }] });
+    const { result } = renderHook(() => useStudyTracker(adapter));
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+    expect(result.current.sessions).toHaveLength(1);
+
+    act(() => {
+      result.current.addSession({
+        date: "2026-03-14",
+        subject: "Physics",
+        startTime: "11:00",
+        endTime: "12:00",
+        focusQuality: 3,
+        distractionCount: 0,
+        energyLevel: "medium",
+        notes: "",
+      });
+    });
+
+    await waitFor(async () => expect(await adapter.getAll("sessions")).toHaveLength(2));
+    expect(await adapter.getAllByIndex("sessions", "subject", "Physics")).toHaveLength(1);
+  });
+
+  it("merges sessions logged by another tab instead of overwriting them", async () => {
+    const adapter = createMemoryAdapter();
+    const first = renderHook(() => useStudyTracker(adapter));
+    const second = renderHook(() => useStudyTracker(adapter));
+    await waitFor(() => expect(first.result.current.isLoaded && second.result.current.isLoaded).toBe(true));
+
+    const log = (tracker: typeof first, subject: string, startTime: string, endTime: string) => act(() => {
+      tracker.result.current.addSession({
+        date: "2026-03-14", subject, startTime, endTime, focusQuality: 3, distractionCount: 0, energyLevel: "medium", notes: "",
+      });
+    });
+
+    log(first, "Maths", "09:00", "10:00");
+    await waitFor(() => expect(second.result.current.sessions).toHaveLength(1));
+    log(second, "Physics", "11:00", "12:00");
+    await waitFor(() => expect(first.result.current.sessions).toHaveLength(2));
+    expect((await adapter.getAll("sessions")).map(s => s.subject).sort()).toEqual(["Maths", "Physics"]);
+  });
+});
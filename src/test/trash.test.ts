@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { addDays, subDays } from "date-fns";
+import { createMemoryAdapter } from "@/lib/storage";
+import { useStudyTracker } from "@/hooks/useStudyTracker";
+import { planSessionImport } from "@/lib/sessionCsv";
+import { StudySession } from "@/lib/types";
+import { session } from "@/test/fixtures";
+
+async function loadTracker(sessions: StudySession[]) {
+  const adapter = createMemoryAdapter({ sessions });
+  const hook = renderHook(() => useStudyTracker(adapter));
+  await waitFor(() => expect(hook.result.current.isLoaded).toBe(true));
+  return { adapter, result: hook.result };
+}
+
+describe("session trash", () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.useRealTimers());
+
+  it("keeps deleted sessions in the trash, out of every total", async () => {
+    const { adapter, result } = await loadTracker([session("a")]);
+    act(() => result.current.deleteSession("a"));
+
+    expect(result.current.sessions).toEqual([]);
+    expect(result.current.trash.map(s => s.id)).toEqual(["a"]);
+    expect(result.current.getDailyTotalHours("2026-03-14")).toBe(0);
+    expect(result.current.getWeeklyStats(new Date(2026, 2, 9)).sessionCount).toBe(0);
+    await waitFor(async () => expect((await adapter.get("sessions", "a"))?.deletedAt).toBeDefined());
+
+    act(() => { result.current.restoreSession("a"); });
+    expect(result.current.sessions.map(s => s.id)).toEqual(["a"]);
+    expect(result.current.sessions[0]).not.toHaveProperty("deletedAt");
+  });
+
+  it("refuses to restore a session that now overlaps another one", async () => {
+    const { result } = await loadTracker([session("a", { deletedAt: new Date().toISOString() }), session("b")]);
+    let restored: ReturnType<typeof result.current.restoreSession> | undefined;
+    act(() => { restored = result.current.restoreSession("a"); });
+    expect(restored).toHaveProperty("error");
+    expect(result.current.trash).toHaveLength(1);
+  });
+
+  it("purges on request and after the retention period", async () => {
+    const { adapter, result } = await loadTracker([
+      session("old", { deletedAt: subDays(new Date(), 40).toISOString() }),
+      session("recent", { date: "2026-03-15", startAt: "2026-03-15T09:00", endAt: "2026-03-15T10:00", deletedAt: subDays(new Date(), 2).toISOString() }),
+    ]);
+    await waitFor(() => expect(result.current.trash.map(s => s.id)).toEqual(["recent"]));
+    await waitFor(async () => expect(await adapter.get("sessions", "old")).toBeUndefined());
+
+    act(() => result.current.purgeSessions(["recent"]));
+    expect(result.current.trash).toEqual([]);
+  });
+
+  it("keeps undo from bringing back a session the retention period purged", async () => {
+    const { adapter, result } = await loadTracker([session("a")]);
+    act(() => result.current.deleteSession("a"));
+    expect(result.current.canUndo).toBe(true);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(addDays(new Date(), 40));
+    act(() => result.current.updateTrashRetention(7));
+    await waitFor(() => expect(result.current.trash).toEqual([]));
+
+    expect(result.current.canUndo).toBe(false);
+    act(() => { result.current.undo(); });
+    expect(result.current.sessions).toEqual([]);
+    await waitFor(async () => expect(await adapter.get("sessions", "a")).toBeUndefined());
+  });
+
+  it("treats a re-imported session that is in the trash as a duplicate", async () => {
+    const { result } = await loadTracker([session("toggl-1", { deletedAt: new Date().toISOString() })]);
+    const { deletedAt: _deletedAt, startAt: _startAt, endAt: _endAt, ...input } = result.current.trash[0];
+
+    expect(planSessionImport([{ row: 2, input }], result.current.allSessions).duplicates).toEqual([{ row: 2, id: "toggl-1" }]);
+    let imported: ReturnType<typeof result.current.addSessions> = [];
+    act(() => { imported = result.current.addSessions([input], { confirmWarnings: true }); });
+    expect(imported).toEqual([{ error: "A session with this id is in the trash." }]);
+    expect(result.current.trash.map(s => s.id)).toEqual(["toggl-1"]);
+    expect(result.current.canUndo).toBe(false);
+  });
+});